@@ -0,0 +1,13 @@
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  transform: {
+    // pdf-parse ships without type declarations
+    '^.+\\.tsx?$': ['ts-jest', { diagnostics: { ignoreCodes: [7016] } }]
+  },
+  // Tests run against the shared sources, so they do not need a shared build first
+  moduleNameMapper: {
+    '^@railbird/shared$': '<rootDir>/../shared/src'
+  }
+};
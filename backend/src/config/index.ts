@@ -15,6 +15,12 @@ export const config = {
     databaseURL: process.env.FIREBASE_DATABASE_URL,
   },
   
+  // Storage Configuration ('file' for local JSON storage, 'firestore' for Firebase)
+  storage: {
+    driver: (process.env.STORAGE_DRIVER || (process.env.FIREBASE_PROJECT_ID ? 'firestore' : 'file')) as 'file' | 'firestore',
+    dataPath: process.env.DATA_PATH || './data',
+  },
+  
   // AI Services Configuration
   openai: {
     apiKey: process.env.OPENAI_API_KEY,
@@ -29,10 +35,49 @@ export const config = {
     apiKey: process.env.GOOGLE_CLOUD_API_KEY,
   },
   
+  // OCR Configuration
+  ocr: {
+    // Below this Google Vision page confidence, Tesseract is tried as well
+    visionFallbackConfidence: parseFloat(process.env.OCR_VISION_FALLBACK_CONFIDENCE || '0.6'),
+    // Below this overall confidence, the race card is flagged for user review
+    reviewConfidence: parseFloat(process.env.OCR_REVIEW_CONFIDENCE || '0.8'),
+    // Run every available engine/preprocessing variant and vote on each line
+    consensus: process.env.OCR_CONSENSUS_MODE === 'true',
+    preprocess: {
+      // Named presets from services/preprocessing/presets.ts
+      preset: process.env.OCR_PREPROCESS_PRESET || 'photo',
+      pdfPreset: process.env.OCR_PDF_PREPROCESS_PRESET || 'scan',
+      // When set, every intermediate image is written here for debugging bad scans
+      debugDir: process.env.OCR_PREPROCESS_DEBUG_DIR || undefined,
+    },
+    tesseract: {
+      // Workers running at once; each holds its own copy of the language data
+      poolSize: parseInt(process.env.TESSERACT_POOL_SIZE || '2'),
+      // Jobs beyond this are rejected instead of waiting indefinitely
+      maxQueueLength: parseInt(process.env.TESSERACT_MAX_QUEUE || '100'),
+      idleTimeoutMs: parseInt(process.env.TESSERACT_IDLE_TIMEOUT || '300000'), // 5 minutes
+    },
+  },
+  
+  // Background Jobs
+  jobs: {
+    // 'memory' loses queued jobs on restart; 'store' keeps them in the document store
+    backend: (process.env.JOB_QUEUE_BACKEND || 'memory') as 'memory' | 'store',
+    concurrency: parseInt(process.env.JOB_CONCURRENCY || '2'),
+    pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL || '1000'),
+    maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '3'),
+    // Delay before the first retry; doubles on each further attempt
+    backoffMs: parseInt(process.env.JOB_BACKOFF || '5000'),
+    timeoutMs: parseInt(process.env.JOB_TIMEOUT || '600000'), // 10 minutes
+  },
+  
   // File Upload Configuration
   upload: {
     maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '10485760'), // 10MB
     allowedTypes: ['.pdf', '.jpg', '.jpeg', '.png'],
+    // Multi-page uploads accept photographed pages only; PDFs already carry their own pages
+    pageTypes: ['.jpg', '.jpeg', '.png'],
+    maxPages: parseInt(process.env.MAX_UPLOAD_PAGES || '30'),
     uploadPath: process.env.UPLOAD_PATH || './uploads',
   },
   
@@ -62,6 +107,14 @@ export const config = {
     },
   },
   
+  // Value detection
+  value: {
+    // Minimum expected return for an overlay, e.g. 0.2 flags prices paying 20% over fair
+    edgeThreshold: parseFloat(process.env.VALUE_EDGE_THRESHOLD || '0.2'),
+    // Share of the win estimate taken from speed figures; the rest comes from the morning line
+    ratingWeight: parseFloat(process.env.VALUE_RATING_WEIGHT || '0.6'),
+  },
+  
   // Feature Flags
   features: {
     voiceInput: process.env.FEATURE_VOICE_INPUT === 'true',
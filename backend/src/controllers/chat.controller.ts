@@ -1,14 +1,19 @@
 import { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { openaiService } from '../services/openai.service';
+import { chatService } from '../services/chat.service';
+import { raceCardService } from '../services/raceCard.service';
 import { logger } from '../utils/logger';
-import { ApiResponse, ChatMessage, ChatSession } from '@railbird/shared';
+import { ApiResponse, ChatMessage, ChatSession, PaginatedResponse, Race } from '@railbird/shared';
 import { extractHorseNumbers, detectAnalysisType, sanitizeInput } from '@railbird/shared';
 
+// Number of prior turns replayed to the model on each message
+const MAX_CONTEXT_MESSAGES = 20;
+
 export class ChatController {
   async sendMessage(req: Request, res: Response): Promise<void> {
     try {
-      const { message, sessionId, raceId } = req.body;
+      const { message, sessionId, raceCardId, raceId } = req.body;
       const userId = req.user?.id || 'guest';
 
       if (!message || typeof message !== 'string') {
@@ -19,6 +24,31 @@ export class ChatController {
         return;
       }
 
+      let session: ChatSession | null;
+      if (sessionId) {
+        session = await chatService.getSession(sessionId, userId);
+        if (!session) {
+          res.status(404).json({
+            success: false,
+            error: 'Chat session not found'
+          } as ApiResponse);
+          return;
+        }
+      } else {
+        session = {
+          id: uuidv4(),
+          userId,
+          raceCardId,
+          raceId,
+          messages: [],
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          title: `Chat Session - ${new Date().toLocaleDateString()}`,
+          isActive: true
+        };
+        await chatService.createSession(session);
+      }
+
       const sanitizedMessage = sanitizeInput(message);
       
       // Create user message
@@ -36,13 +66,14 @@ export class ChatController {
 
       logger.info(`Chat message from user ${userId}: ${sanitizedMessage.substring(0, 100)}...`);
 
-      // Get existing messages for context (you'd fetch from database)
-      const existingMessages: ChatMessage[] = [];
+      // Get existing messages for context
+      const existingMessages = await chatService.getRecentMessages(session.id, MAX_CONTEXT_MESSAGES);
 
-      // Get race data if raceId is provided (you'd fetch from database)
-      let raceData = null;
-      if (raceId) {
-        // raceData = await raceService.getRaceById(raceId);
+      // Get race data if the session is tied to a race card
+      const activeRaceId = raceId || session.raceId;
+      let raceData: Race | undefined;
+      if (activeRaceId && session.raceCardId) {
+        raceData = await raceCardService.getRaceById(session.raceCardId, activeRaceId, userId) || undefined;
       }
 
       // Generate AI response
@@ -65,8 +96,7 @@ export class ChatController {
         }
       };
 
-      // Here you would save both messages to the database
-      // await chatService.saveMessages([userMessage, aiMessage], sessionId);
+      await chatService.saveMessages(session, [userMessage, aiMessage]);
 
       logger.info(`AI response generated for user ${userId}`);
 
@@ -75,7 +105,7 @@ export class ChatController {
         data: {
           userMessage,
           aiMessage,
-          sessionId: sessionId || uuidv4()
+          sessionId: session.id
         },
         message: 'Message sent successfully'
       } as ApiResponse);
@@ -96,22 +126,27 @@ export class ChatController {
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 50;
 
-      // Here you would fetch from your database
-      // const messages = await chatService.getSessionMessages(sessionId, userId, page, limit);
+      const session = await chatService.getSession(sessionId, userId);
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          error: 'Chat session not found'
+        } as ApiResponse);
+        return;
+      }
 
-      // Mock response for now
-      const messages: ChatMessage[] = [];
+      const { items, total } = await chatService.getSessionMessages(sessionId, page, limit);
 
       res.json({
         success: true,
-        data: messages,
+        data: items,
         pagination: {
           page,
           limit,
-          total: messages.length,
-          totalPages: Math.ceil(messages.length / limit)
+          total,
+          totalPages: Math.ceil(total / limit)
         }
-      });
+      } as PaginatedResponse<ChatMessage>);
 
     } catch (error) {
       logger.error('Get chat history error:', error);
@@ -127,6 +162,14 @@ export class ChatController {
       const { raceCardId, raceId, title } = req.body;
       const userId = req.user?.id || 'guest';
 
+      if (raceCardId && !(await raceCardService.getRaceCard(raceCardId, userId))) {
+        res.status(404).json({
+          success: false,
+          error: 'Race card not found'
+        } as ApiResponse);
+        return;
+      }
+
       const session: ChatSession = {
         id: uuidv4(),
         userId,
@@ -139,8 +182,7 @@ export class ChatController {
         isActive: true
       };
 
-      // Here you would save to your database
-      // await chatService.createSession(session);
+      await chatService.createSession(session);
 
       logger.info(`Chat session created: ${session.id} for user ${userId}`);
 
@@ -165,22 +207,18 @@ export class ChatController {
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 20;
 
-      // Here you would fetch from your database
-      // const sessions = await chatService.getUserSessions(userId, page, limit);
-
-      // Mock response for now
-      const sessions: ChatSession[] = [];
+      const { items, total } = await chatService.getUserSessions(userId, page, limit);
 
       res.json({
         success: true,
-        data: sessions,
+        data: items,
         pagination: {
           page,
           limit,
-          total: sessions.length,
-          totalPages: Math.ceil(sessions.length / limit)
+          total,
+          totalPages: Math.ceil(total / limit)
         }
-      });
+      } as PaginatedResponse<ChatSession>);
 
     } catch (error) {
       logger.error('Get user sessions error:', error);
@@ -196,8 +234,14 @@ export class ChatController {
       const { sessionId } = req.params;
       const userId = req.user?.id || 'guest';
 
-      // Here you would delete from your database
-      // await chatService.deleteSession(sessionId, userId);
+      const deleted = await chatService.deleteSession(sessionId, userId);
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: 'Chat session not found'
+        } as ApiResponse);
+        return;
+      }
 
       logger.info(`Chat session deleted: ${sessionId} by user ${userId}`);
 
@@ -217,20 +261,18 @@ export class ChatController {
 
   async quickInsight(req: Request, res: Response): Promise<void> {
     try {
-      const { question, raceId } = req.body;
+      const { question, raceCardId, raceId } = req.body;
       const userId = req.user?.id || 'guest';
 
-      if (!question || !raceId) {
+      if (!question || !raceCardId || !raceId) {
         res.status(400).json({
           success: false,
-          error: 'Question and raceId are required'
+          error: 'Question, raceCardId and raceId are required'
         } as ApiResponse);
         return;
       }
 
-      // Get race data (you'd fetch from database)
-      // const raceData = await raceService.getRaceById(raceId);
-      const raceData = null; // Mock for now
+      const raceData = await raceCardService.getRaceById(raceCardId, raceId, userId);
 
       if (!raceData) {
         res.status(404).json({
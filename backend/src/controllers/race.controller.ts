@@ -0,0 +1,150 @@
+import { Request, Response } from 'express';
+import { raceCardService } from '../services/raceCard.service';
+import { valueService } from '../services/value.service';
+import { figureService } from '../services/figures.service';
+import { classService } from '../services/class.service';
+import { formService } from '../services/form.service';
+import { logger } from '../utils/logger';
+import { ApiResponse, Race, RaceClassAnalysis, RaceFigures, RaceFormAnalysis, RaceValueAnalysis, SpeedFigureScale, SPEED_FIGURE_SCALES } from '@railbird/shared';
+
+// ?raceCardId= picks the card when the race is on several of the user's cards
+const findRequestedRace = (req: Request): Promise<Race | null> => {
+  const { raceId } = req.params;
+  const raceCardId = req.query.raceCardId as string | undefined;
+  const userId = req.user?.id || 'guest';
+
+  return raceCardId
+    ? raceCardService.getRaceById(raceCardId, raceId, userId)
+    : raceCardService.findRaceById(raceId, userId);
+};
+
+export class RaceController {
+  async getRaceValue(req: Request, res: Response): Promise<void> {
+    try {
+      let edgeThreshold: number | undefined;
+      if (req.query.edge !== undefined) {
+        edgeThreshold = parseFloat(req.query.edge as string);
+        if (isNaN(edgeThreshold) || edgeThreshold < 0) {
+          res.status(400).json({
+            success: false,
+            error: 'Edge must be a non-negative number, e.g. 0.2 for 20%'
+          } as ApiResponse);
+          return;
+        }
+      }
+
+      const race = await findRequestedRace(req);
+
+      if (!race) {
+        res.status(404).json({
+          success: false,
+          error: 'Race not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const analysis = valueService.analyzeRace(race, { edgeThreshold });
+
+      res.json({
+        success: true,
+        data: analysis
+      } as ApiResponse<RaceValueAnalysis>);
+
+    } catch (error) {
+      logger.error('Get race value error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get race value'
+      } as ApiResponse);
+    }
+  }
+
+  async getRaceFigures(req: Request, res: Response): Promise<void> {
+    try {
+      const scale = (req.query.scale as SpeedFigureScale | undefined) || 'beyer';
+      if (!SPEED_FIGURE_SCALES.includes(scale)) {
+        res.status(400).json({
+          success: false,
+          error: `Scale must be one of ${SPEED_FIGURE_SCALES.join(', ')}`
+        } as ApiResponse);
+        return;
+      }
+
+      const race = await findRequestedRace(req);
+
+      if (!race) {
+        res.status(404).json({
+          success: false,
+          error: 'Race not found'
+        } as ApiResponse);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: figureService.analyzeRace(race, scale)
+      } as ApiResponse<RaceFigures>);
+
+    } catch (error) {
+      logger.error('Get race figures error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get race figures'
+      } as ApiResponse);
+    }
+  }
+
+  async getRaceClass(req: Request, res: Response): Promise<void> {
+    try {
+      const race = await findRequestedRace(req);
+
+      if (!race) {
+        res.status(404).json({
+          success: false,
+          error: 'Race not found'
+        } as ApiResponse);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: classService.analyzeRace(race)
+      } as ApiResponse<RaceClassAnalysis>);
+
+    } catch (error) {
+      logger.error('Get race class error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get race class'
+      } as ApiResponse);
+    }
+  }
+
+  async getRaceForm(req: Request, res: Response): Promise<void> {
+    try {
+      const race = await findRequestedRace(req);
+
+      if (!race) {
+        res.status(404).json({
+          success: false,
+          error: 'Race not found'
+        } as ApiResponse);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: formService.analyzeRace(race)
+      } as ApiResponse<RaceFormAnalysis>);
+
+    } catch (error) {
+      logger.error('Get race form error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get race form'
+      } as ApiResponse);
+    }
+  }
+}
+
+export const raceController = new RaceController();
@@ -0,0 +1,212 @@
+import { Request, Response } from 'express';
+import { raceCardService } from '../services/raceCard.service';
+import { logger } from '../utils/logger';
+import { ApiResponse, HorseAppearance, PaginatedResponse, Race, RaceCard } from '@railbird/shared';
+
+export class RaceCardController {
+  async getRaceCards(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id || 'guest';
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+
+      const { items, total } = await raceCardService.getUserRaceCards(userId, page, limit);
+
+      res.json({
+        success: true,
+        data: items,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      } as PaginatedResponse<RaceCard>);
+
+    } catch (error) {
+      logger.error('Get race cards error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get race cards'
+      } as ApiResponse);
+    }
+  }
+
+  async getRaceCard(req: Request, res: Response): Promise<void> {
+    try {
+      const { raceCardId } = req.params;
+      const userId = req.user?.id || 'guest';
+
+      const raceCard = await raceCardService.getRaceCard(raceCardId, userId);
+
+      if (!raceCard) {
+        res.status(404).json({
+          success: false,
+          error: 'Race card not found'
+        } as ApiResponse);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: raceCard
+      } as ApiResponse<RaceCard>);
+
+    } catch (error) {
+      logger.error('Get race card error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get race card'
+      } as ApiResponse);
+    }
+  }
+
+  async getRace(req: Request, res: Response): Promise<void> {
+    try {
+      const { raceCardId } = req.params;
+      const raceNumber = parseInt(req.params.raceNumber);
+      const userId = req.user?.id || 'guest';
+
+      if (isNaN(raceNumber)) {
+        res.status(400).json({
+          success: false,
+          error: 'Race number must be a number'
+        } as ApiResponse);
+        return;
+      }
+
+      const race = await raceCardService.getRace(raceCardId, raceNumber, userId);
+
+      if (!race) {
+        res.status(404).json({
+          success: false,
+          error: 'Race not found'
+        } as ApiResponse);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: race
+      } as ApiResponse<Race>);
+
+    } catch (error) {
+      logger.error('Get race error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get race'
+      } as ApiResponse);
+    }
+  }
+
+  async getHorseHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const { identityId } = req.params;
+      const foalingYear = parseInt(req.query.foalingYear as string) || undefined;
+      const userId = req.user?.id || 'guest';
+
+      const appearances = await raceCardService.getHorseHistory(identityId, userId, foalingYear);
+
+      res.json({
+        success: true,
+        data: appearances
+      } as ApiResponse<HorseAppearance[]>);
+
+    } catch (error) {
+      logger.error('Get horse history error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get horse history'
+      } as ApiResponse);
+    }
+  }
+
+  async correctRaceCard(req: Request, res: Response): Promise<void> {
+    try {
+      const { raceCardId } = req.params;
+      const { raceNumber, programNumber, field, value } = req.body;
+      const userId = req.user?.id || 'guest';
+
+      if (typeof raceNumber !== 'number' || !field || value === undefined || value === null) {
+        res.status(400).json({
+          success: false,
+          error: 'raceNumber, field and value are required'
+        } as ApiResponse);
+        return;
+      }
+
+      const raceCard = await raceCardService.applyCorrection(raceCardId, userId, {
+        raceNumber,
+        programNumber: programNumber !== undefined && programNumber !== null ? String(programNumber) : undefined,
+        field,
+        value
+      });
+
+      res.json({
+        success: true,
+        data: raceCard,
+        message: 'Correction applied successfully'
+      } as ApiResponse<RaceCard>);
+
+    } catch (error: any) {
+      if (error.code === 'NOT_FOUND' || error.code === 'INVALID_CORRECTION') {
+        res.status(error.code === 'NOT_FOUND' ? 404 : 400).json({
+          success: false,
+          error: error.message
+        } as ApiResponse);
+        return;
+      }
+
+      logger.error('Correct race card error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to apply correction'
+      } as ApiResponse);
+    }
+  }
+
+  async applyLateChanges(req: Request, res: Response): Promise<void> {
+    try {
+      const { raceCardId } = req.params;
+      const { changes } = req.body;
+      const userId = req.user?.id || 'guest';
+
+      const valid = Array.isArray(changes) && changes.length > 0 && changes.every((change: any) =>
+        change && typeof change.raceNumber === 'number' && change.programNumber !== undefined && change.type
+      );
+
+      if (!valid) {
+        res.status(400).json({
+          success: false,
+          error: 'changes must be a non-empty list of { raceNumber, programNumber, type }'
+        } as ApiResponse);
+        return;
+      }
+
+      const raceCard = await raceCardService.applyLateChanges(raceCardId, userId, changes);
+
+      res.json({
+        success: true,
+        data: raceCard,
+        message: 'Changes applied successfully'
+      } as ApiResponse<RaceCard>);
+
+    } catch (error: any) {
+      if (error.code === 'NOT_FOUND' || error.code === 'INVALID_CHANGE') {
+        res.status(error.code === 'NOT_FOUND' ? 404 : 400).json({
+          success: false,
+          error: error.message
+        } as ApiResponse);
+        return;
+      }
+
+      logger.error('Apply late changes error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to apply changes'
+      } as ApiResponse);
+    }
+  }
+}
+
+export const raceCardController = new RaceCardController();
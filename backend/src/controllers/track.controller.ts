@@ -0,0 +1,66 @@
+import { Request, Response } from 'express';
+import { trackRegistry } from '../services/tracks';
+import { logger } from '../utils/logger';
+import { ApiResponse, Surface, Track } from '@railbird/shared';
+
+const SURFACES: Surface[] = ['dirt', 'turf', 'synthetic'];
+
+export class TrackController {
+  async getTracks(req: Request, res: Response): Promise<void> {
+    try {
+      const country = req.query.country as string | undefined;
+      const surface = req.query.surface as Surface | undefined;
+      const search = req.query.q as string | undefined;
+
+      if (surface && !SURFACES.includes(surface)) {
+        res.status(400).json({
+          success: false,
+          error: `Surface must be one of: ${SURFACES.join(', ')}`
+        } as ApiResponse);
+        return;
+      }
+
+      const tracks = trackRegistry.getTracks({ country, surface, search });
+
+      res.json({
+        success: true,
+        data: tracks
+      } as ApiResponse<Track[]>);
+
+    } catch (error) {
+      logger.error('Get tracks error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get tracks'
+      } as ApiResponse);
+    }
+  }
+
+  async getTrack(req: Request, res: Response): Promise<void> {
+    try {
+      const track = trackRegistry.findByCode(req.params.code);
+
+      if (!track) {
+        res.status(404).json({
+          success: false,
+          error: 'Track not found'
+        } as ApiResponse);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: track
+      } as ApiResponse<Track>);
+
+    } catch (error) {
+      logger.error('Get track error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get track'
+      } as ApiResponse);
+    }
+  }
+}
+
+export const trackController = new TrackController();
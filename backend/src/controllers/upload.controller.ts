@@ -1,8 +1,9 @@
 import { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { ocrService } from '../services/ocr.service';
+import { ocrJobService } from '../services/ocrJob.service';
+import { uploadService } from '../services/upload.service';
 import { logger } from '../utils/logger';
-import { ApiResponse, FileUpload, OCRResult } from '@railbird/shared';
+import { ApiResponse, FileUpload, PaginatedResponse } from '@railbird/shared';
 import { config } from '../config';
 import path from 'path';
 import fs from 'fs/promises';
@@ -52,18 +53,22 @@ export class UploadController {
         fileSize: size,
         mimeType: mimetype,
         uploadedAt: new Date(),
-        status: 'uploaded'
+        status: 'uploaded',
+        // Kept after processing so OCR can be re-run
+        storedFiles: [filename]
       };
 
+      await uploadService.createUpload(fileUpload);
+
       logger.info(`File uploaded: ${originalname} by user ${userId}`);
 
-      // Start OCR processing asynchronously
-      this.processFileAsync(fileUpload, req.file.path, req.io);
+      // OCR runs as a background job
+      await ocrJobService.enqueue(fileUpload);
 
       res.json({
         success: true,
         data: fileUpload,
-        message: 'File uploaded successfully. Processing started.'
+        message: 'File uploaded successfully. Processing queued.'
       } as ApiResponse<FileUpload>);
 
     } catch (error) {
@@ -80,97 +85,89 @@ export class UploadController {
     }
   }
 
-  private async processFileAsync(fileUpload: FileUpload, filePath: string, io: any): Promise<void> {
+  async uploadPages(req: Request, res: Response): Promise<void> {
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+
     try {
-      // Update status to processing
-      fileUpload.status = 'processing';
-      
-      // Emit status update via WebSocket
-      io.emit('file_processing', {
-        fileId: fileUpload.id,
-        status: 'processing',
-        message: 'Starting OCR processing...'
-      });
+      if (files.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'No pages uploaded'
+        } as ApiResponse);
+        return;
+      }
 
-      logger.info(`Starting OCR processing for file: ${fileUpload.originalName}`);
+      const userId = req.user?.id || 'guest';
 
-      // Process with OCR
-      const ocrResult: OCRResult = await ocrService.processFile(filePath, fileUpload.originalName);
-      
-      fileUpload.ocrResult = ocrResult;
-      fileUpload.processedAt = new Date();
-
-      if (ocrResult.success && ocrResult.extractedData) {
-        fileUpload.status = 'completed';
-        
-        // Create race card if data was extracted
-        if (ocrResult.extractedData.races && ocrResult.extractedData.races.length > 0) {
-          const raceCardId = uuidv4();
-          fileUpload.raceCardId = raceCardId;
-          
-          // Here you would save the race card to your database
-          logger.info(`Race card created: ${raceCardId} with ${ocrResult.extractedData.races.length} races`);
-        }
+      // Validate every page before processing any of them
+      const pageTypes = config.upload.pageTypes;
+      const invalidPage = files.find(file => !pageTypes.includes(path.extname(file.originalname).toLowerCase()));
 
-        io.emit('file_processing', {
-          fileId: fileUpload.id,
-          status: 'completed',
-          message: 'File processed successfully',
-          raceCardId: fileUpload.raceCardId,
-          extractedData: ocrResult.extractedData
-        });
-
-        logger.info(`OCR processing completed for file: ${fileUpload.originalName}`);
-      } else {
-        fileUpload.status = 'failed';
-        
-        io.emit('file_processing', {
-          fileId: fileUpload.id,
-          status: 'failed',
-          message: 'Failed to extract race data from file',
-          errors: ocrResult.errors
-        });
-
-        logger.error(`OCR processing failed for file: ${fileUpload.originalName}`, ocrResult.errors);
+      if (invalidPage) {
+        await Promise.all(files.map(file => this.cleanupFile(file.path)));
+        res.status(400).json({
+          success: false,
+          error: `File type ${path.extname(invalidPage.originalname).toLowerCase()} not supported for program pages. Allowed types: ${pageTypes.join(', ')}`
+        } as ApiResponse);
+        return;
       }
 
-    } catch (error) {
-      logger.error('File processing error:', error);
-      
-      fileUpload.status = 'failed';
-      fileUpload.ocrResult = {
-        success: false,
-        text: '',
-        confidence: 0,
-        errors: [error instanceof Error ? error.message : 'Unknown processing error']
+      const fileUpload: FileUpload = {
+        id: uuidv4(),
+        userId,
+        originalName: files[0].originalname,
+        fileSize: files.reduce((sum, file) => sum + file.size, 0),
+        mimeType: files[0].mimetype,
+        pageCount: files.length,
+        uploadedAt: new Date(),
+        status: 'uploaded',
+        storedFiles: files.map(file => file.filename)
       };
 
-      io.emit('file_processing', {
-        fileId: fileUpload.id,
-        status: 'failed',
-        message: 'Processing failed due to an error',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
-    } finally {
-      // Clean up uploaded file
-      await this.cleanupFile(filePath);
+      await uploadService.createUpload(fileUpload);
+
+      logger.info(`${files.length} program pages uploaded by user ${userId}`);
+
+      // OCR runs as a background job
+      await ocrJobService.enqueue(fileUpload);
+
+      res.json({
+        success: true,
+        data: fileUpload,
+        message: `${files.length} pages uploaded successfully. Processing queued.`
+      } as ApiResponse<FileUpload>);
+
+    } catch (error) {
+      logger.error('Page upload error:', error);
+
+      await Promise.all(files.map(file => this.cleanupFile(file.path)));
+
+      res.status(500).json({
+        success: false,
+        error: 'Upload failed'
+      } as ApiResponse);
     }
   }
 
   async getUploadStatus(req: Request, res: Response): Promise<void> {
     try {
       const { fileId } = req.params;
-      
-      // Here you would fetch from your database
-      // For now, return a mock response
+      const userId = req.user?.id || 'guest';
+
+      const fileUpload = await uploadService.getUpload(fileId, userId);
+
+      if (!fileUpload) {
+        res.status(404).json({
+          success: false,
+          error: 'Upload not found'
+        } as ApiResponse);
+        return;
+      }
+
       res.json({
         success: true,
-        data: {
-          id: fileId,
-          status: 'completed',
-          message: 'File processed successfully'
-        }
-      } as ApiResponse);
+        data: fileUpload
+      } as ApiResponse<FileUpload>);
 
     } catch (error) {
       logger.error('Get upload status error:', error);
@@ -187,18 +184,18 @@ export class UploadController {
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 10;
 
-      // Here you would fetch from your database
-      // For now, return a mock response
+      const { items, total } = await uploadService.getUserUploads(userId, page, limit);
+
       res.json({
         success: true,
-        data: [],
+        data: items,
         pagination: {
           page,
           limit,
-          total: 0,
-          totalPages: 0
+          total,
+          totalPages: Math.ceil(total / limit)
         }
-      });
+      } as PaginatedResponse<FileUpload>);
 
     } catch (error) {
       logger.error('Get user uploads error:', error);
@@ -209,6 +206,60 @@ export class UploadController {
     }
   }
 
+  async cancelUpload(req: Request, res: Response): Promise<void> {
+    await this.handleJobAction(req, res, fileUpload => ocrJobService.cancel(fileUpload), 'Processing cancelled', 'Failed to cancel upload');
+  }
+
+  async reprocessUpload(req: Request, res: Response): Promise<void> {
+    await this.handleJobAction(req, res, fileUpload => ocrJobService.reprocess(fileUpload), 'Reprocessing queued', 'Failed to reprocess upload');
+  }
+
+  private async handleJobAction(
+    req: Request,
+    res: Response,
+    action: (fileUpload: FileUpload) => Promise<FileUpload>,
+    successMessage: string,
+    failureMessage: string
+  ): Promise<void> {
+    try {
+      const { fileId } = req.params;
+      const userId = req.user?.id || 'guest';
+
+      const fileUpload = await uploadService.getUpload(fileId, userId);
+
+      if (!fileUpload) {
+        res.status(404).json({
+          success: false,
+          error: 'Upload not found'
+        } as ApiResponse);
+        return;
+      }
+
+      const updated = await action(fileUpload);
+
+      res.json({
+        success: true,
+        data: updated,
+        message: successMessage
+      } as ApiResponse<FileUpload>);
+
+    } catch (error: any) {
+      if (error.code === 'INVALID_UPLOAD_STATE') {
+        res.status(400).json({
+          success: false,
+          error: error.message
+        } as ApiResponse);
+        return;
+      }
+
+      logger.error(`${failureMessage}:`, error);
+      res.status(500).json({
+        success: false,
+        error: failureMessage
+      } as ApiResponse);
+    }
+  }
+
   private async cleanupFile(filePath: string): Promise<void> {
     try {
       await fs.unlink(filePath);
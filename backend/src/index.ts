@@ -7,6 +7,9 @@ import morgan from 'morgan';
 import { config } from './config';
 import { logger } from './utils/logger';
 import routes from './routes';
+import { tesseractPool } from './services/tesseract.service';
+import { jobQueue } from './services/jobs';
+import { ocrJobService } from './services/ocrJob.service';
 import fs from 'fs';
 import path from 'path';
 
@@ -94,6 +97,11 @@ const createDirectories = () => {
 const startServer = async () => {
   try {
     createDirectories();
+
+    // Background OCR jobs; with a persistent backend this also resumes interrupted jobs
+    ocrJobService.register(io);
+    await ocrJobService.recoverInterrupted();
+    await jobQueue.start();
     
     server.listen(config.port, () => {
       logger.info(`🚀 Railbird API server running on port ${config.port}`);
@@ -115,8 +123,10 @@ const startServer = async () => {
 const gracefulShutdown = () => {
   logger.info('Received shutdown signal, closing server...');
   
-  server.close(() => {
+  server.close(async () => {
     logger.info('Server closed');
+    await jobQueue.stop();
+    await tesseractPool.shutdown();
     process.exit(0);
   });
   
@@ -34,6 +34,18 @@ const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCa
   }
 };
 
+// Page uploads only take images
+const pageFileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  const pageTypes = config.upload.pageTypes;
+  const fileExtension = path.extname(file.originalname).toLowerCase();
+
+  if (pageTypes.includes(fileExtension)) {
+    cb(null, true);
+  } else {
+    cb(new Error(`File type ${fileExtension} not allowed for program pages. Allowed types: ${pageTypes.join(', ')}`));
+  }
+};
+
 // Configure multer
 export const uploadMiddleware = multer({
   storage,
@@ -44,6 +56,16 @@ export const uploadMiddleware = multer({
   }
 });
 
+// Multiple page images of one race program
+export const uploadPagesMiddleware = multer({
+  storage,
+  fileFilter: pageFileFilter,
+  limits: {
+    fileSize: config.upload.maxFileSize,
+    files: config.upload.maxPages
+  }
+});
+
 // Error handling middleware for multer
 export const handleUploadError = (error: any, req: any, res: any, next: any) => {
   if (error instanceof multer.MulterError) {
@@ -56,13 +78,13 @@ export const handleUploadError = (error: any, req: any, res: any, next: any) =>
     if (error.code === 'LIMIT_FILE_COUNT') {
       return res.status(400).json({
         success: false,
-        error: 'Too many files. Only one file allowed per upload.'
+        error: `Too many files. Upload one race program file, or up to ${config.upload.maxPages} page images.`
       });
     }
     if (error.code === 'LIMIT_UNEXPECTED_FILE') {
       return res.status(400).json({
         success: false,
-        error: 'Unexpected field name. Use "raceProgram" as the field name.'
+        error: 'Unexpected field name. Use "raceProgram" for a single file or "pages" for page images.'
       });
     }
   }
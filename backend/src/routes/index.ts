@@ -1,6 +1,9 @@
 import { Router } from 'express';
 import uploadRoutes from './upload.routes';
 import chatRoutes from './chat.routes';
+import raceCardRoutes from './raceCard.routes';
+import trackRoutes from './track.routes';
+import raceRoutes from './race.routes';
 
 const router = Router();
 
@@ -17,5 +20,8 @@ router.get('/health', (req, res) => {
 // API routes
 router.use('/upload', uploadRoutes);
 router.use('/chat', chatRoutes);
+router.use('/race-cards', raceCardRoutes);
+router.use('/tracks', trackRoutes);
+router.use('/races', raceRoutes);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { raceController } from '../controllers/race.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Apply authentication middleware to all race routes
+router.use(authenticateToken);
+
+// Fair odds line and overlays for a race; ?edge= overrides the overlay threshold
+router.get('/:raceId/value', raceController.getRaceValue);
+
+// Field ranked on speed figures converted to one scale; ?scale= picks it (default beyer)
+router.get('/:raceId/figures', raceController.getRaceFigures);
+
+// Class rating of the race and each runner's recent starts, with drops and rises
+router.get('/:raceId/class', raceController.getRaceClass);
+
+// Form cycle of each runner with a reason to quote
+router.get('/:raceId/form', raceController.getRaceForm);
+
+export default router;
@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { raceCardController } from '../controllers/raceCard.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Apply authentication middleware to all race card routes
+router.use(authenticateToken);
+
+// Get user's race cards
+router.get('/', raceCardController.getRaceCards);
+
+// Get every entry of one horse across the user's race cards
+router.get('/horses/:identityId', raceCardController.getHorseHistory);
+
+// Get a single race card
+router.get('/:raceCardId', raceCardController.getRaceCard);
+
+// Correct a misread field on a race card
+router.patch('/:raceCardId', raceCardController.correctRaceCard);
+
+// Apply scratches and late changes to a race card
+router.post('/:raceCardId/changes', raceCardController.applyLateChanges);
+
+// Get a single race from a race card
+router.get('/:raceCardId/races/:raceNumber', raceCardController.getRace);
+
+export default router;
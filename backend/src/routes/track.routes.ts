@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { trackController } from '../controllers/track.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Apply authentication middleware to all track routes
+router.use(authenticateToken);
+
+// List known tracks, optionally filtered by country, surface or search text
+router.get('/', trackController.getTracks);
+
+// Look up a track by any of its codes
+router.get('/:code', trackController.getTrack);
+
+export default router;
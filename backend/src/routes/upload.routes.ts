@@ -1,7 +1,8 @@
 import { Router } from 'express';
 import { uploadController } from '../controllers/upload.controller';
 import { authenticateToken } from '../middleware/auth.middleware';
-import { uploadMiddleware, handleUploadError } from '../middleware/upload.middleware';
+import { uploadMiddleware, uploadPagesMiddleware, handleUploadError } from '../middleware/upload.middleware';
+import { config } from '../config';
 
 const router = Router();
 
@@ -13,7 +14,15 @@ router.post(
   '/race-program',
   uploadMiddleware.single('raceProgram'),
   handleUploadError,
-  uploadController.uploadFile
+  uploadController.uploadFile.bind(uploadController)
+);
+
+// Upload photographed pages of one race program
+router.post(
+  '/race-program/pages',
+  uploadPagesMiddleware.array('pages', config.upload.maxPages),
+  handleUploadError,
+  uploadController.uploadPages.bind(uploadController)
 );
 
 // Get upload status
@@ -22,4 +31,10 @@ router.get('/status/:fileId', uploadController.getUploadStatus);
 // Get user's uploads
 router.get('/history', uploadController.getUserUploads);
 
+// Cancel processing of an upload
+router.delete('/:fileId', uploadController.cancelUpload.bind(uploadController));
+
+// Re-run OCR on a stored upload
+router.post('/:fileId/reprocess', uploadController.reprocessUpload.bind(uploadController));
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { ChatMessage, ChatSession } from '@railbird/shared';
+import { createDocumentStore, DocumentStore, ListResult } from './storage';
+import { logger } from '../utils/logger';
+
+// Messages are stored in their own collection so history can be paginated
+export interface StoredChatMessage extends ChatMessage {
+  sessionId: string;
+}
+
+export class ChatService {
+  private sessions: DocumentStore<ChatSession>;
+  private messages: DocumentStore<StoredChatMessage>;
+
+  constructor(
+    sessions?: DocumentStore<ChatSession>,
+    messages?: DocumentStore<StoredChatMessage>
+  ) {
+    this.sessions = sessions || createDocumentStore<ChatSession>('chatSessions');
+    this.messages = messages || createDocumentStore<StoredChatMessage>('chatMessages');
+  }
+
+  async createSession(session: ChatSession): Promise<ChatSession> {
+    await this.sessions.put({ ...session, messages: [] });
+    return session;
+  }
+
+  async getSession(sessionId: string, userId: string): Promise<ChatSession | null> {
+    const session = await this.sessions.get(sessionId);
+    if (!session || session.userId !== userId) return null;
+    return session;
+  }
+
+  async getUserSessions(userId: string, page: number, limit: number): Promise<ListResult<ChatSession>> {
+    return this.sessions.list({
+      where: { userId },
+      orderBy: 'updatedAt',
+      direction: 'desc',
+      offset: (page - 1) * limit,
+      limit
+    });
+  }
+
+  async deleteSession(sessionId: string, userId: string): Promise<boolean> {
+    const session = await this.getSession(sessionId, userId);
+    if (!session) return false;
+
+    const { items } = await this.messages.list({ where: { sessionId } });
+    await Promise.all(items.map(message => this.messages.delete(message.id)));
+    await this.sessions.delete(sessionId);
+
+    logger.info(`Deleted chat session ${sessionId} with ${items.length} messages`);
+    return true;
+  }
+
+  async saveMessages(session: ChatSession, messages: ChatMessage[]): Promise<void> {
+    for (const message of messages) {
+      await this.messages.put({ ...message, sessionId: session.id });
+    }
+
+    await this.sessions.put({
+      ...session,
+      messages: [],
+      updatedAt: new Date()
+    });
+  }
+
+  async getSessionMessages(sessionId: string, page: number, limit: number): Promise<ListResult<ChatMessage>> {
+    const result = await this.messages.list({
+      where: { sessionId },
+      orderBy: 'timestamp',
+      direction: 'asc',
+      offset: (page - 1) * limit,
+      limit
+    });
+
+    return {
+      items: result.items.map(({ sessionId: _sessionId, ...message }) => message),
+      total: result.total
+    };
+  }
+
+  async getRecentMessages(sessionId: string, count: number): Promise<ChatMessage[]> {
+    const { items } = await this.messages.list({
+      where: { sessionId },
+      orderBy: 'timestamp',
+      direction: 'desc',
+      limit: count
+    });
+
+    return items
+      .reverse()
+      .map(({ sessionId: _sessionId, ...message }) => message);
+  }
+}
+
+export const chatService = new ChatService();
@@ -0,0 +1,208 @@
+import {
+  ClassMove,
+  ClassSignal,
+  Horse,
+  HorseClass,
+  PastPerformance,
+  Race,
+  RaceClass,
+  RaceClassAnalysis,
+  RaceConditions,
+  TrackTier,
+  getProgramNumber,
+  getRunners
+} from '@railbird/shared';
+import { formatRaceType, parseClassLevel } from './parsers/conditions.parser';
+import { trackRegistry } from './tracks';
+
+// Rating of each level at a tier 2 track, before price, grade and purse
+const CLASS_BASE: Record<RaceClass, number> = {
+  'maiden-claiming': 30,
+  'claiming': 40,
+  'starter-allowance': 45,
+  'maiden-special-weight': 55,
+  'allowance': 65,
+  'optional-claiming': 70,
+  'stakes': 78
+};
+const GRADE_RATINGS: Record<1 | 2 | 3, number> = { 1: 96, 2: 90, 3: 85 };
+
+// Claiming levels move eight points each time the tag doubles from the level's usual price;
+// starter races carry half the adjustment because the tag only limits who may enter
+const BASE_CLAIMING_PRICES: Partial<Record<RaceClass, number>> = {
+  'maiden-claiming': 10000,
+  'claiming': 10000,
+  'starter-allowance': 10000,
+  'optional-claiming': 50000
+};
+const POINTS_PER_PRICE_DOUBLING = 8;
+const STARTER_PRICE_WEIGHT = 0.5;
+
+// Purse a race of each level typically carries; richer or poorer races move two
+// points per doubling, up to six either way
+const TYPICAL_PURSES: Record<RaceClass, number> = {
+  'maiden-claiming': 20000,
+  'claiming': 25000,
+  'starter-allowance': 30000,
+  'maiden-special-weight': 60000,
+  'allowance': 70000,
+  'optional-claiming': 80000,
+  'stakes': 150000
+};
+const POINTS_PER_PURSE_DOUBLING = 2;
+const MAX_PURSE_POINTS = 6;
+
+const TIER_POINTS: Record<TrackTier, number> = { 1: 5, 2: 0, 3: -8 };
+const DEFAULT_TIER: TrackTier = 2;
+
+// A change of this many points between today and a start counts as a drop or rise
+const CLASS_MOVE_POINTS = 5;
+const RECENT_STARTS = 3;
+
+const CLAIMING_CLASSES: RaceClass[] = ['claiming', 'maiden-claiming'];
+const MAIDEN_CLASSES: RaceClass[] = ['maiden-claiming', 'maiden-special-weight'];
+
+interface RatedStart {
+  pp: PastPerformance;
+  conditions: RaceConditions;
+  rating: number;
+}
+
+// Rates races by level, claiming price, grade, track tier and purse on one 0-100
+// scale, and compares today's race with each runner's recent starts
+export class ClassService {
+  analyzeRace(race: Race): RaceClassAnalysis {
+    const rating = this.rateRace(race);
+
+    return {
+      raceId: race.id,
+      ...(rating !== null && { rating }),
+      horses: getRunners(race).map(horse => this.getHorseClass(horse, race, rating)),
+      generatedAt: new Date()
+    };
+  }
+
+  // Stores the race rating and each runner's class and move on the race
+  applyToRace(race: Race): RaceClassAnalysis {
+    const analysis = this.analyzeRace(race);
+    const byHorse = new Map(analysis.horses.map(horseClass => [horseClass.horseId, horseClass]));
+
+    race.classRating = analysis.rating;
+    race.horses.forEach(horse => {
+      const horseClass = byHorse.get(horse.id);
+      if (!horseClass) return;
+      horse.classRating = horseClass.rating;
+      horse.classMove = horseClass.move;
+    });
+
+    return analysis;
+  }
+
+  rateRace(race: Race): number | null {
+    if (!race.conditions) return null;
+    const tier = race.trackCode ? trackRegistry.findByCode(race.trackCode)?.tier : undefined;
+    return this.rateClass(race.conditions, tier, race.purse || race.conditions.purse);
+  }
+
+  rateClass(conditions: RaceConditions, tier: TrackTier = DEFAULT_TIER, purse?: number): number {
+    let rating = CLASS_BASE[conditions.raceClass];
+
+    if (conditions.raceClass === 'stakes' && conditions.grade) {
+      rating = GRADE_RATINGS[conditions.grade];
+    } else if (conditions.claimingPrice && BASE_CLAIMING_PRICES[conditions.raceClass]) {
+      const weight = conditions.raceClass === 'starter-allowance' ? STARTER_PRICE_WEIGHT : 1;
+      const priceRatio = conditions.claimingPrice / BASE_CLAIMING_PRICES[conditions.raceClass]!;
+      rating += weight * POINTS_PER_PRICE_DOUBLING * Math.log2(priceRatio);
+    }
+
+    if (purse) {
+      const pursePoints = POINTS_PER_PURSE_DOUBLING * Math.log2(purse / TYPICAL_PURSES[conditions.raceClass]);
+      rating += Math.max(-MAX_PURSE_POINTS, Math.min(MAX_PURSE_POINTS, pursePoints));
+    }
+
+    rating += TIER_POINTS[tier];
+    return Math.round(Math.max(0, Math.min(100, rating)));
+  }
+
+  private getHorseClass(horse: Horse, race: Race, todayRating: number | null): HorseClass {
+    const starts = this.rateStarts(horse.pastPerformances);
+    const base: HorseClass = {
+      horseId: horse.id,
+      programNumber: getProgramNumber(horse),
+      name: horse.name,
+      signals: [],
+      startsUsed: starts.length
+    };
+    if (starts.length === 0) return base;
+
+    const ratings = starts.map(start => start.rating);
+    const last = starts[0];
+    const horseClass: HorseClass = {
+      ...base,
+      rating: Math.round(ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length),
+      lastRating: last.rating,
+      bestRating: Math.max(...ratings)
+    };
+
+    if (todayRating === null || !race.conditions) return horseClass;
+
+    const change = todayRating - last.rating;
+    horseClass.move = this.getMove(change);
+    horseClass.signals = this.getSignals(race.conditions, starts, change);
+    return horseClass;
+  }
+
+  // Most recent first; starts whose class token could not be read are skipped
+  private rateStarts(pastPerformances: PastPerformance[]): RatedStart[] {
+    const starts: RatedStart[] = [];
+
+    for (const pp of pastPerformances) {
+      if (starts.length === RECENT_STARTS) break;
+      const conditions = parseClassLevel(pp.classLevel);
+      if (!conditions) continue;
+
+      // A running line's purse is only real when it is not the claiming price read from the class token
+      const purse = conditions.purse || (pp.purse && pp.purse !== conditions.claimingPrice ? pp.purse : undefined);
+      const tier = trackRegistry.findByCode(pp.track)?.tier;
+      starts.push({ pp, conditions, rating: this.rateClass(conditions, tier, purse) });
+    }
+
+    return starts;
+  }
+
+  private getMove(change: number): ClassMove {
+    if (change <= -CLASS_MOVE_POINTS) return 'drop';
+    if (change >= CLASS_MOVE_POINTS) return 'rise';
+    return 'same';
+  }
+
+  private getSignals(today: RaceConditions, starts: RatedStart[], change: number): ClassSignal[] {
+    const signals: ClassSignal[] = [];
+    const last = starts[0];
+    const lastLabel = `${formatRaceType(last.conditions)} at ${last.pp.track}`;
+    const todayLabel = formatRaceType(today);
+
+    if (change <= -CLASS_MOVE_POINTS) {
+      signals.push({ type: 'drop', points: change, description: `Drops from ${lastLabel} to ${todayLabel}` });
+    } else if (change >= CLASS_MOVE_POINTS) {
+      signals.push({ type: 'rise', points: change, description: `Steps up from ${lastLabel} to ${todayLabel}` });
+    }
+
+    // Owners risk losing the horse for the tag, which is a strong intent signal
+    const claimedBefore = starts.some(start => CLAIMING_CLASSES.includes(start.conditions.raceClass));
+    if (CLAIMING_CLASSES.includes(today.raceClass) && !claimedBefore) {
+      signals.push({ type: 'first-time-claiming', description: `First time in for a tag: ${todayLabel}` });
+    }
+
+    if (!MAIDEN_CLASSES.includes(today.raceClass) && MAIDEN_CLASSES.includes(last.conditions.raceClass) && last.pp.finish === 1) {
+      signals.push({
+        type: 'maiden-graduate',
+        description: `Broke its maiden last out (${lastLabel}) and faces winners in ${todayLabel}`
+      });
+    }
+
+    return signals;
+  }
+}
+
+export const classService = new ClassService();
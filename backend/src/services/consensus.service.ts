@@ -0,0 +1,193 @@
+import { parseDistance } from '@railbird/shared';
+import {
+  formatHorseRow,
+  HorseRowFields,
+  isValidHorseName,
+  isValidOdds,
+  isValidWeight,
+  parseHorseRow
+} from './parsers/fields';
+
+export interface ConsensusCandidate {
+  // Label for logging, e.g. "google-vision" or "tesseract:threshold"
+  source: string;
+  text: string;
+  confidence: number;
+}
+
+export interface ConsensusResult {
+  text: string;
+  confidence: number;
+  // Lines where the readings disagreed and a field-level vote decided the outcome
+  resolvedLines: number;
+}
+
+interface LineReading {
+  text: string;
+  weight: number;
+}
+
+// How far ahead to look for a matching line in another reading
+const ALIGNMENT_WINDOW = 4;
+const MIN_LINE_SIMILARITY = 0.5;
+
+const normalize = (line: string): string => line.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+const similarity = (a: string, b: string): number => {
+  const left = normalize(a);
+  const right = normalize(b);
+  const longest = Math.max(left.length, right.length);
+  if (longest === 0) return 1;
+  return 1 - levenshtein(left, right) / longest;
+};
+
+// Combines several OCR readings of the same page. Lines are aligned against the
+// most confident reading, and for each line the reading that parses as a valid
+// horse row, odds string or distance wins, field by field.
+export class ConsensusService {
+  merge(candidates: ConsensusCandidate[]): ConsensusResult {
+    const usable = candidates.filter(candidate => candidate.text.trim().length > 0);
+    if (usable.length === 0) {
+      return { text: '', confidence: 0, resolvedLines: 0 };
+    }
+
+    const [base, ...others] = [...usable].sort((a, b) => b.confidence - a.confidence);
+    const baseLines = this.splitLines(base.text);
+    const groups: LineReading[][] = baseLines.map(line => [{ text: line, weight: base.confidence }]);
+
+    for (const other of others) {
+      this.align(baseLines, this.splitLines(other.text)).forEach((line, index) => {
+        if (line !== null) groups[index].push({ text: line, weight: other.confidence });
+      });
+    }
+
+    let resolvedLines = 0;
+    const lines = groups.map(readings => {
+      const chosen = this.resolveLine(readings);
+      if (chosen !== readings[0].text) resolvedLines++;
+      return chosen;
+    });
+
+    // Agreement between engines raises confidence; unmatched lines keep the base score
+    const agreement = groups.filter(readings => readings.length > 1).length / Math.max(groups.length, 1);
+    const averageConfidence = usable.reduce((sum, candidate) => sum + candidate.confidence, 0) / usable.length;
+    const confidence = Math.min(1, Math.max(base.confidence, averageConfidence + (1 - averageConfidence) * agreement * 0.5));
+
+    return {
+      text: lines.join('\n'),
+      confidence,
+      resolvedLines
+    };
+  }
+
+  private splitLines(text: string): string[] {
+    return text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+  }
+
+  // Greedy in-order alignment: each base line takes the most similar unused line nearby
+  private align(baseLines: string[], otherLines: string[]): (string | null)[] {
+    const aligned: (string | null)[] = [];
+    let cursor = 0;
+
+    for (const baseLine of baseLines) {
+      let bestIndex = -1;
+      let bestScore = MIN_LINE_SIMILARITY;
+
+      for (let j = cursor; j < Math.min(cursor + ALIGNMENT_WINDOW, otherLines.length); j++) {
+        const score = similarity(baseLine, otherLines[j]);
+        if (score > bestScore) {
+          bestScore = score;
+          bestIndex = j;
+        }
+      }
+
+      if (bestIndex >= 0) {
+        aligned.push(otherLines[bestIndex]);
+        cursor = bestIndex + 1;
+      } else {
+        aligned.push(null);
+      }
+    }
+
+    return aligned;
+  }
+
+  private resolveLine(readings: LineReading[]): string {
+    if (readings.length === 1) return readings[0].text;
+
+    const rows = readings
+      .map(reading => ({ row: parseHorseRow(reading.text), weight: reading.weight }))
+      .filter((entry): entry is { row: HorseRowFields; weight: number } => entry.row !== null);
+
+    if (rows.length > 0) {
+      return formatHorseRow(this.voteHorseRow(rows));
+    }
+
+    // Race header lines: prefer a reading whose distance actually parses
+    const withDistance = readings.filter(reading => parseDistance(reading.text) !== null);
+    if (withDistance.length > 0 && withDistance.length < readings.length) {
+      return withDistance.sort((a, b) => b.weight - a.weight)[0].text;
+    }
+
+    return readings[0].text;
+  }
+
+  private voteHorseRow(rows: { row: HorseRowFields; weight: number }[]): HorseRowFields {
+    const vote = (
+      field: Exclude<keyof HorseRowFields, 'scratched' | 'alsoEligible'>,
+      isValid: (value: string) => boolean
+    ): string | undefined => {
+      const tallies = new Map<string, number>();
+
+      rows.forEach(({ row, weight }) => {
+        const value = row[field];
+        if (value && isValid(value)) {
+          tallies.set(value, (tallies.get(value) || 0) + weight);
+        }
+      });
+
+      let best: string | undefined;
+      let bestWeight = 0;
+      tallies.forEach((weight, value) => {
+        if (weight > bestWeight) {
+          best = value;
+          bestWeight = weight;
+        }
+      });
+
+      return best;
+    };
+
+    // Markers are kept when readings carrying them outweigh those without
+    const totalWeight = rows.reduce((sum, { weight }) => sum + weight, 0);
+    const flag = (field: 'scratched' | 'alsoEligible'): boolean | undefined =>
+      rows.filter(({ row }) => row[field]).reduce((sum, { weight }) => sum + weight, 0) > totalWeight / 2 || undefined;
+
+    return {
+      number: vote('number', value => /^\d{1,2}[A-Z]?$/.test(value)) || rows[0].row.number,
+      name: vote('name', isValidHorseName) || rows[0].row.name,
+      jockey: vote('jockey', value => value.length > 1),
+      weight: vote('weight', isValidWeight),
+      odds: vote('odds', isValidOdds),
+      scratched: flag('scratched'),
+      alsoEligible: flag('alsoEligible')
+    };
+  }
+}
+
+export const consensusService = new ConsensusService();
@@ -0,0 +1,144 @@
+import {
+  Horse,
+  HorseFigures,
+  ParBasis,
+  Race,
+  RaceClass,
+  RaceFigures,
+  SpeedFigureScale,
+  DEFAULT_FIGURE_SCALE,
+  convertFigure,
+  getFigureScale,
+  getHeadlineFigure,
+  getProgramNumber,
+  getRecentFigures,
+  getRunners
+} from '@railbird/shared';
+
+// Beyer figure the winner typically earns at each level
+const CLASS_PARS: Record<RaceClass, number> = {
+  'maiden-claiming': 58,
+  'claiming': 70,
+  'starter-allowance': 72,
+  'maiden-special-weight': 74,
+  'allowance': 85,
+  'optional-claiming': 88,
+  'stakes': 92
+};
+const GRADE_PARS: Record<1 | 2 | 3, number> = { 1: 105, 2: 100, 3: 96 };
+
+// Claiming pars are for a $10,000 tag and climb four points each time the price doubles
+const BASE_CLAIMING_PRICE = 10000;
+const POINTS_PER_DOUBLING = 4;
+
+// Without a class par, the race is expected to need what its best few runners have run
+const FIELD_PAR_RUNNERS = 3;
+
+const RECENT_RACES = 3;
+
+// Puts figures from different publishers on one scale and ranks the field against the race par
+export class FigureService {
+  analyzeRace(race: Race, scale: SpeedFigureScale = DEFAULT_FIGURE_SCALE): RaceFigures {
+    const horses = getRunners(race).map(horse => this.getHorseFigures(horse, scale));
+    this.rankHorses(horses);
+
+    const classPar = this.getClassPar(race, scale);
+    const par = classPar ?? this.getFieldPar(horses);
+    const parBasis: ParBasis | undefined = classPar !== null ? 'class' : par !== null ? 'field' : undefined;
+
+    if (par !== null) {
+      horses.forEach(horse => {
+        if (horse.rating !== undefined) horse.vsPar = horse.rating - par;
+      });
+    }
+
+    return {
+      raceId: race.id,
+      scale,
+      ...(par !== null && { par, parBasis }),
+      horses,
+      generatedAt: new Date()
+    };
+  }
+
+  // Rating is the midpoint of the last race and the best of three, which weighs
+  // current form against what the horse has shown it can run
+  getHorseFigures(horse: Horse, scale: SpeedFigureScale = DEFAULT_FIGURE_SCALE): HorseFigures {
+    const figures = getRecentFigures(horse.pastPerformances, scale, RECENT_RACES);
+    const base: HorseFigures = {
+      horseId: horse.id,
+      programNumber: getProgramNumber(horse),
+      name: horse.name,
+      figuresUsed: figures.length,
+      sourceScales: this.getSourceScales(horse)
+    };
+
+    if (figures.length === 0) {
+      const headline = getHeadlineFigure(horse);
+      if (!headline) return base;
+      return { ...base, rating: convertFigure(headline.figure, headline.scale, scale), sourceScales: [headline.scale] };
+    }
+
+    const lastRace = figures[0];
+    const bestOfThree = Math.max(...figures);
+    const average = Math.round(figures.reduce((sum, figure) => sum + figure, 0) / figures.length);
+
+    return {
+      ...base,
+      lastRace,
+      bestOfThree,
+      average,
+      rating: Math.round((lastRace + bestOfThree) / 2)
+    };
+  }
+
+  // Rating used by other models; null when the horse has no figures at all
+  getRating(horse: Horse, scale: SpeedFigureScale = DEFAULT_FIGURE_SCALE): number | null {
+    return this.getHorseFigures(horse, scale).rating ?? null;
+  }
+
+  private getSourceScales(horse: Horse): SpeedFigureScale[] {
+    const scales = horse.pastPerformances
+      .filter(pp => typeof pp.speedFigure === 'number')
+      .slice(0, RECENT_RACES)
+      .map(pp => getFigureScale(pp));
+    return [...new Set(scales)];
+  }
+
+  private rankHorses(horses: HorseFigures[]): void {
+    const ratings = horses
+      .map(horse => horse.rating)
+      .filter((rating): rating is number => rating !== undefined)
+      .sort((a, b) => b - a);
+
+    horses.forEach(horse => {
+      if (horse.rating !== undefined) horse.rank = ratings.indexOf(horse.rating) + 1;
+    });
+    horses.sort((a, b) => (a.rank ?? Infinity) - (b.rank ?? Infinity));
+  }
+
+  private getClassPar(race: Race, scale: SpeedFigureScale): number | null {
+    const conditions = race.conditions;
+    if (!conditions) return null;
+
+    let par = CLASS_PARS[conditions.raceClass];
+    if (conditions.raceClass === 'stakes' && conditions.grade) {
+      par = GRADE_PARS[conditions.grade];
+    } else if (conditions.claimingPrice) {
+      par += Math.round(POINTS_PER_DOUBLING * Math.log2(conditions.claimingPrice / BASE_CLAIMING_PRICE));
+    }
+
+    return convertFigure(par, 'beyer', scale);
+  }
+
+  private getFieldPar(horses: HorseFigures[]): number | null {
+    const top = horses
+      .map(horse => horse.rating)
+      .filter((rating): rating is number => rating !== undefined)
+      .slice(0, FIELD_PAR_RUNNERS);
+    if (top.length === 0) return null;
+    return Math.round(top.reduce((sum, rating) => sum + rating, 0) / top.length);
+  }
+}
+
+export const figureService = new FigureService();
@@ -0,0 +1,193 @@
+import {
+  FormCycle,
+  Horse,
+  HorseForm,
+  PastPerformance,
+  Race,
+  RaceFormAnalysis,
+  DEFAULT_FIGURE_SCALE,
+  convertFigure,
+  getFigureScale,
+  getProgramNumber,
+  getRunners
+} from '@railbird/shared';
+
+// A rest this long between starts is a layoff, and the form cycle starts over after it
+const LAYOFF_DAYS = 60;
+// Starts looked at for the trend, most recent first
+const FORM_RACES = 5;
+// Works within this many days of the race count as recent
+const WORKOUT_WINDOW_DAYS = 30;
+// A layoff runner with this many recent works is considered fit to run
+const READY_WORKOUTS = 3;
+
+// Per-start changes that count as one step of improvement: two figure points,
+// or one length less beaten. Two steps either way call the cycle.
+const FIGURE_STEP = 2;
+const LENGTHS_STEP = 1;
+const TREND_STEPS = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+// Least-squares slope of values listed most recent first, per start from oldest to newest
+const slope = (recentFirst: number[]): number => {
+  const values = [...recentFirst].reverse();
+  const n = values.length;
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((sum, value) => sum + value, 0) / n;
+  let numerator = 0;
+  let denominator = 0;
+  values.forEach((value, x) => {
+    numerator += (x - meanX) * (value - meanY);
+    denominator += (x - meanX) ** 2;
+  });
+  return denominator > 0 ? numerator / denominator : 0;
+};
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+const ordinal = (position: number): string => {
+  const suffixes: Record<number, string> = { 1: 'st', 2: 'nd', 3: 'rd' };
+  const teen = position % 100 >= 11 && position % 100 <= 13;
+  return `${position}${(!teen && suffixes[position % 10]) || 'th'}`;
+};
+
+// Reads where each runner is in its form cycle from beaten lengths, speed figure
+// trends, layoffs and recent works, with a reason the assistant can quote
+export class FormService {
+  analyzeRace(race: Race): RaceFormAnalysis {
+    return {
+      raceId: race.id,
+      horses: getRunners(race).map(horse => this.analyzeHorse(horse, race.date)),
+      generatedAt: new Date()
+    };
+  }
+
+  applyToRace(race: Race): RaceFormAnalysis {
+    const analysis = this.analyzeRace(race);
+    const byHorse = new Map(analysis.horses.map(form => [form.horseId, form]));
+
+    race.horses.forEach(horse => {
+      const form = byHorse.get(horse.id);
+      if (form) horse.formCycle = form.cycle;
+    });
+
+    return analysis;
+  }
+
+  analyzeHorse(horse: Horse, raceDate: string): HorseForm {
+    const works = (horse.workouts || []).filter(work => {
+      const days = daysBetween(work.date, raceDate);
+      return days >= 0 && days <= WORKOUT_WINDOW_DAYS;
+    });
+    const bulletWorkout = works.some(work => work.bullet);
+    const base = {
+      horseId: horse.id,
+      programNumber: getProgramNumber(horse),
+      name: horse.name,
+      recentWorkouts: works.length,
+      ...(bulletWorkout && { bulletWorkout })
+    };
+    const workText = this.describeWorkouts(works.length, bulletWorkout);
+
+    const starts = horse.pastPerformances.slice(0, FORM_RACES);
+    if (starts.length === 0) {
+      return { ...base, cycle: 'first-time-starter', reason: `First-time starter ${workText}.`, startsUsed: 0 };
+    }
+
+    const daysSinceLastRace = daysBetween(starts[0].date, raceDate);
+    const sinceLayoff = this.startsSinceLayoff(starts);
+    const current = starts.slice(0, sinceLayoff);
+    const figures = this.getFigures(current);
+    const beaten = current.map(pp => (pp.finish === 1 ? 0 : pp.beaten));
+
+    const form: HorseForm = {
+      ...base,
+      cycle: 'steady',
+      reason: '',
+      daysSinceLastRace,
+      startsSinceLayoff: sinceLayoff,
+      startsUsed: current.length
+    };
+    if (figures.length >= 2) form.figureTrend = round(slope(figures));
+    if (beaten.length >= 2) form.beatenLengthsTrend = round(slope(beaten));
+
+    if (daysSinceLastRace >= LAYOFF_DAYS) {
+      form.cycle = 'layoff';
+      form.startsSinceLayoff = 0;
+      form.reason = `Returns from a ${daysSinceLastRace}-day layoff ${workText}` +
+        (works.length >= READY_WORKOUTS ? ', so the barn has it ready.' : '; fitness is a question.');
+      return form;
+    }
+
+    // Only one start since a layoff: the "bounce back" start many trainers point for
+    if (sinceLayoff === 1 && starts.length > 1) {
+      const restDays = daysBetween(starts[1].date, starts[0].date);
+      form.cycle = 'second-off-layoff';
+      form.reason = `Second start back from a ${restDays}-day layoff after it ${this.describeStart(starts[0])} ` +
+        'first back; horses often move forward second off a rest.';
+      return form;
+    }
+
+    const score = (form.figureTrend ?? 0) / FIGURE_STEP - (form.beatenLengthsTrend ?? 0) / LENGTHS_STEP;
+    form.cycle = this.getCycle(score, current.length);
+    form.reason = this.describeTrend(form, figures, current);
+    return form;
+  }
+
+  // Counts starts back to the first gap of a layoff or more
+  private startsSinceLayoff(starts: PastPerformance[]): number {
+    for (let i = 1; i < starts.length; i++) {
+      if (daysBetween(starts[i].date, starts[i - 1].date) >= LAYOFF_DAYS) return i;
+    }
+    return starts.length;
+  }
+
+  private getFigures(starts: PastPerformance[]): number[] {
+    return starts
+      .filter(pp => typeof pp.speedFigure === 'number')
+      .map(pp => convertFigure(pp.speedFigure!, getFigureScale(pp), DEFAULT_FIGURE_SCALE));
+  }
+
+  private getCycle(score: number, starts: number): FormCycle {
+    if (starts < 2) return 'steady';
+    if (score >= TREND_STEPS) return 'improving';
+    if (score <= -TREND_STEPS) return 'declining';
+    return 'steady';
+  }
+
+  private describeTrend(form: HorseForm, figures: number[], current: PastPerformance[]): string {
+    const starts = current.length;
+    if (starts < 2) return `Only one start to go on: it ${this.describeStart(current[0])}.`;
+
+    const parts: string[] = [];
+    if (form.figureTrend !== undefined) {
+      const direction = form.figureTrend >= 0 ? 'up' : 'down';
+      parts.push(`figures ${direction} ${Math.abs(form.figureTrend)} a start (${[...figures].reverse().join(', ')})`);
+    }
+    if (form.beatenLengthsTrend !== undefined && Math.abs(form.beatenLengthsTrend) >= 0.5) {
+      parts.push(`beaten lengths ${form.beatenLengthsTrend < 0 ? 'shrinking' : 'growing'} by ${Math.abs(form.beatenLengthsTrend)} a start`);
+    }
+
+    const label = form.cycle === 'steady' ? 'Holding form' : form.cycle === 'improving' ? 'Improving' : 'Tailing off';
+    const detail = parts.length > 0 ? parts.join(' and ') : 'no figures or margins to trend';
+    return `${label} over the last ${starts} starts: ${detail}.`;
+  }
+
+  private describeStart(pp: PastPerformance): string {
+    const figure = typeof pp.speedFigure === 'number' ? ` (figure ${pp.speedFigure})` : '';
+    if (pp.finish === 1) return `won${figure}`;
+    if (pp.finish === 0) return `ran unplaced${figure}`;
+    return `ran ${ordinal(pp.finish)} beaten ${pp.beaten} lengths${figure}`;
+  }
+
+  private describeWorkouts(count: number, bullet: boolean): string {
+    if (count === 0) return 'with no works in the last month';
+    return `with ${count} work${count === 1 ? '' : 's'} in the last month${bullet ? ' including a bullet' : ''}`;
+  }
+}
+
+export const formService = new FormService();
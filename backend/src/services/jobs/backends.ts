@@ -0,0 +1,42 @@
+import { createDocumentStore, DocumentStore } from '../storage';
+import { Job, JobBackend, JobStatus } from './types';
+
+export class MemoryJobBackend implements JobBackend {
+  private jobs = new Map<string, Job>();
+
+  async put(job: Job): Promise<Job> {
+    this.jobs.set(job.id, job);
+    return job;
+  }
+
+  async get(id: string): Promise<Job | null> {
+    return this.jobs.get(id) || null;
+  }
+
+  async listByStatus(status: JobStatus): Promise<Job[]> {
+    return Array.from(this.jobs.values()).filter(job => job.status === status);
+  }
+}
+
+// Keeps jobs in the configured document store, so queued and interrupted jobs
+// survive a restart
+export class StoreJobBackend implements JobBackend {
+  private store: DocumentStore<Job>;
+
+  constructor(store?: DocumentStore<Job>) {
+    this.store = store || createDocumentStore<Job>('jobs');
+  }
+
+  async put(job: Job): Promise<Job> {
+    return this.store.put(job);
+  }
+
+  async get(id: string): Promise<Job | null> {
+    return this.store.get(id);
+  }
+
+  async listByStatus(status: JobStatus): Promise<Job[]> {
+    const { items } = await this.store.list({ where: { status }, orderBy: 'createdAt', direction: 'asc' });
+    return items;
+  }
+}
@@ -0,0 +1,26 @@
+import { config } from '../../config';
+import { MemoryJobBackend, StoreJobBackend } from './backends';
+import { JobQueue } from './queue';
+import { JobBackend } from './types';
+
+export * from './types';
+export { MemoryJobBackend, StoreJobBackend } from './backends';
+export * from './queue';
+
+const createJobBackend = (): JobBackend => {
+  if (config.jobs.backend === 'store') {
+    return new StoreJobBackend();
+  }
+
+  return new MemoryJobBackend();
+};
+
+export const jobQueue = new JobQueue(createJobBackend(), {
+  concurrency: config.jobs.concurrency,
+  pollIntervalMs: config.jobs.pollIntervalMs,
+  defaults: {
+    maxAttempts: config.jobs.maxAttempts,
+    timeoutMs: config.jobs.timeoutMs,
+    backoffMs: config.jobs.backoffMs
+  }
+});
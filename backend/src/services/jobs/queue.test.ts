@@ -0,0 +1,129 @@
+import { MemoryJobBackend } from './backends';
+import { JobQueue } from './queue';
+import { Job } from './types';
+
+const waitFor = async (condition: () => boolean | Promise<boolean>, timeoutMs = 2000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the queue');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('JobQueue', () => {
+  let backend: MemoryJobBackend;
+  let queue: JobQueue;
+
+  beforeEach(() => {
+    backend = new MemoryJobBackend();
+    queue = new JobQueue(backend, {
+      concurrency: 1,
+      pollIntervalMs: 20,
+      defaults: { maxAttempts: 2, timeoutMs: 100, backoffMs: 10 }
+    });
+  });
+
+  afterEach(async () => {
+    await queue.stop();
+  });
+
+  it('retries a failing job and reports the failure once attempts run out', async () => {
+    const attempts: number[] = [];
+    const failed = jest.fn().mockResolvedValue(undefined);
+    queue.register('flaky', {
+      run: async (_payload, context) => {
+        attempts.push(context.attempt);
+        throw new Error(`attempt ${context.attempt} broke`);
+      },
+      failed
+    });
+    await queue.start();
+
+    const { id } = await queue.enqueue('flaky', { fileId: '1' });
+    await waitFor(async () => (await queue.getJob(id))?.status === 'failed');
+
+    expect(attempts).toEqual([1, 2]);
+    expect(failed).toHaveBeenCalledTimes(1);
+    expect(failed.mock.calls[0][0]).toEqual({ fileId: '1' });
+    expect((await queue.getJob(id))?.lastError).toBe('attempt 2 broke');
+  });
+
+  it('does not start the retry until a timed-out attempt has returned', async () => {
+    const events: string[] = [];
+    queue.register('slow', {
+      run: async (_payload, context) => {
+        events.push(`start ${context.attempt}`);
+        await sleep(250);
+        events.push(`end ${context.attempt} aborted=${context.signal.aborted}`);
+      }
+    });
+    await queue.start();
+
+    const { id } = await queue.enqueue('slow', {});
+    await waitFor(async () => (await queue.getJob(id))?.status === 'failed', 3000);
+    await waitFor(() => events.length === 4);
+
+    expect(events).toEqual(['start 1', 'end 1 aborted=true', 'start 2', 'end 2 aborted=true']);
+    expect((await queue.getJob(id))?.lastError).toBe('Job timed out after 100ms');
+  });
+
+  it('never runs a job cancelled while queued', async () => {
+    const run = jest.fn().mockResolvedValue(undefined);
+    queue.register('report', { run });
+
+    const job = await queue.enqueue('report', {}, { delayMs: 50 });
+    await queue.cancel(job.id);
+    await queue.start();
+    await sleep(100);
+
+    expect(run).not.toHaveBeenCalled();
+    expect((await queue.getJob(job.id))?.status).toBe('cancelled');
+  });
+
+  it('keeps polling when the backend cannot record a job', async () => {
+    queue.register('report', { run: async () => undefined });
+    await queue.start();
+
+    const put = jest.spyOn(backend, 'put').mockRejectedValueOnce(new Error('disk full'));
+    await expect(queue.enqueue('report', {})).rejects.toThrow('disk full');
+    put.mockRestore();
+
+    const { id } = await queue.enqueue('report', {});
+    await waitFor(async () => (await queue.getJob(id))?.status === 'completed');
+  });
+
+  describe('start', () => {
+    const interruptedJob = (id: string, attempts: number): Job => ({
+      id,
+      type: 'ocr',
+      payload: { fileId: id },
+      status: 'running',
+      attempts,
+      maxAttempts: 2,
+      timeoutMs: 100,
+      backoffMs: 10,
+      runAt: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      startedAt: new Date()
+    });
+
+    it('reruns jobs interrupted by a restart and fails those that were on their last attempt', async () => {
+      const run = jest.fn().mockResolvedValue(undefined);
+      const failed = jest.fn().mockResolvedValue(undefined);
+      queue.register('ocr', { run, failed });
+      await backend.put(interruptedJob('retry', 1));
+      await backend.put(interruptedJob('final', 2));
+
+      await queue.start();
+      await waitFor(async () => (await queue.getJob('retry'))?.status === 'completed');
+
+      expect(run).toHaveBeenCalledTimes(1);
+      expect(run.mock.calls[0][1]).toMatchObject({ jobId: 'retry', attempt: 2, isFinalAttempt: true });
+      expect(await queue.getJob('final')).toMatchObject({ status: 'failed', lastError: 'Interrupted by a server restart' });
+      expect(failed).toHaveBeenCalledWith({ fileId: 'final' }, expect.any(Error), expect.objectContaining({ id: 'final' }));
+    });
+  });
+});
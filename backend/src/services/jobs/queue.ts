@@ -0,0 +1,228 @@
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../../utils/logger';
+import { EnqueueOptions, Job, JobBackend, JobDefinition } from './types';
+
+export interface JobQueueOptions {
+  concurrency: number;
+  pollIntervalMs: number;
+  defaults: Required<Omit<EnqueueOptions, 'id' | 'delayMs'>>;
+}
+
+interface RunningJob {
+  job: Job;
+  controller: AbortController;
+}
+
+class JobCancelledError extends Error {
+  constructor() {
+    super('Job cancelled');
+  }
+}
+
+// Polls the backend for due jobs and runs up to `concurrency` of them at a time.
+// Failed attempts are retried with exponential backoff until maxAttempts.
+export class JobQueue {
+  private definitions = new Map<string, JobDefinition>();
+  private running = new Map<string, RunningJob>();
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+
+  constructor(private readonly backend: JobBackend, private readonly options: JobQueueOptions) {}
+
+  register<TPayload>(type: string, definition: JobDefinition<TPayload>): void {
+    this.definitions.set(type, definition);
+  }
+
+  async enqueue<TPayload>(type: string, payload: TPayload, options: EnqueueOptions = {}): Promise<Job<TPayload>> {
+    if (!this.definitions.has(type)) {
+      throw new Error(`No job handler registered for ${type}`);
+    }
+
+    const now = new Date();
+    const job: Job<TPayload> = {
+      id: options.id || uuidv4(),
+      type,
+      payload,
+      status: 'queued',
+      attempts: 0,
+      maxAttempts: options.maxAttempts ?? this.options.defaults.maxAttempts,
+      timeoutMs: options.timeoutMs ?? this.options.defaults.timeoutMs,
+      backoffMs: options.backoffMs ?? this.options.defaults.backoffMs,
+      runAt: new Date(now.getTime() + (options.delayMs || 0)),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.backend.put(job);
+    logger.info(`Job ${job.id} (${type}) queued`);
+
+    // Start right away when there is a free slot instead of waiting for the next poll
+    setImmediate(() => this.tick());
+
+    return job;
+  }
+
+  async getJob(jobId: string): Promise<Job | null> {
+    return this.backend.get(jobId);
+  }
+
+  // Queued jobs never start; a running job is signalled to stop and its outcome is discarded
+  async cancel(jobId: string): Promise<Job | null> {
+    const running = this.running.get(jobId);
+    const job = running?.job || await this.backend.get(jobId);
+    if (!job) return null;
+    if (job.status !== 'queued' && job.status !== 'running') return job;
+
+    job.status = 'cancelled';
+    job.finishedAt = new Date();
+    job.updatedAt = job.finishedAt;
+    await this.backend.put(job);
+
+    running?.controller.abort(new JobCancelledError());
+    logger.info(`Job ${jobId} cancelled`);
+
+    return job;
+  }
+
+  async start(): Promise<void> {
+    // Jobs that were running when the process stopped are picked up again, unless
+    // the interrupted run was their last attempt
+    const interrupted = await this.backend.listByStatus('running');
+    for (const job of interrupted) {
+      const definition = this.definitions.get(job.type);
+      if (definition && job.attempts >= job.maxAttempts) {
+        await this.handleFailure(job, definition, new Error('Interrupted by a server restart'));
+        continue;
+      }
+
+      job.status = 'queued';
+      job.runAt = new Date();
+      job.updatedAt = new Date();
+      await this.backend.put(job);
+    }
+
+    if (interrupted.length > 0) {
+      logger.info(`Recovered ${interrupted.length} interrupted jobs`);
+    }
+
+    this.timer = setInterval(() => this.tick(), this.options.pollIntervalMs);
+    this.timer.unref();
+    await this.tick();
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const free = this.options.concurrency - this.running.size;
+      if (free <= 0) return;
+
+      const now = Date.now();
+      const due = (await this.backend.listByStatus('queued'))
+        .filter(job => job.runAt.getTime() <= now && !this.running.has(job.id))
+        .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())
+        .slice(0, free);
+
+      due.forEach(job => {
+        this.run(job).catch(error => logger.error(`Job ${job.id} (${job.type}) could not be recorded:`, error));
+      });
+    } catch (error) {
+      logger.error('Job queue poll failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async run(job: Job): Promise<void> {
+    const definition = this.definitions.get(job.type);
+    if (!definition) {
+      logger.warn(`Skipping job ${job.id}: no handler registered for ${job.type}`);
+      return;
+    }
+
+    const controller = new AbortController();
+    this.running.set(job.id, { job, controller });
+
+    let timeout: NodeJS.Timeout | undefined;
+    let attempt: Promise<void> | undefined;
+
+    try {
+      job.status = 'running';
+      job.attempts++;
+      job.startedAt = new Date();
+      job.updatedAt = job.startedAt;
+      await this.backend.put(job);
+
+      const timedOut = new Promise<never>((_, reject) => {
+        timeout = setTimeout(() => {
+          const error = new Error(`Job timed out after ${job.timeoutMs}ms`);
+          controller.abort(error);
+          reject(error);
+        }, job.timeoutMs);
+      });
+
+      const cancelled = new Promise<never>((_, reject) => {
+        controller.signal.addEventListener('abort', () => reject(controller.signal.reason));
+      });
+
+      attempt = definition.run(job.payload, {
+        jobId: job.id,
+        attempt: job.attempts,
+        isFinalAttempt: job.attempts >= job.maxAttempts,
+        signal: controller.signal
+      });
+      await Promise.race([attempt, timedOut, cancelled]);
+
+      if (job.status === 'running') {
+        job.status = 'completed';
+        job.finishedAt = new Date();
+        job.updatedAt = job.finishedAt;
+        await this.backend.put(job);
+        logger.info(`Job ${job.id} (${job.type}) completed on attempt ${job.attempts}`);
+      }
+    } catch (error) {
+      await this.handleFailure(job, definition, error instanceof Error ? error : new Error(String(error)));
+    } finally {
+      if (timeout) clearTimeout(timeout);
+      // A timed-out or cancelled handler may still be working; it keeps its slot, and
+      // the retry waits, until it has seen the abort and returned
+      await attempt?.catch(() => undefined);
+      this.running.delete(job.id);
+      setImmediate(() => this.tick());
+    }
+  }
+
+  private async handleFailure(job: Job, definition: JobDefinition, error: Error): Promise<void> {
+    // Cancellation already recorded the final state
+    if (job.status === 'cancelled') return;
+
+    job.lastError = error.message;
+    job.updatedAt = new Date();
+
+    if (job.attempts < job.maxAttempts) {
+      const delay = job.backoffMs * 2 ** (job.attempts - 1);
+      job.status = 'queued';
+      job.runAt = new Date(Date.now() + delay);
+      await this.backend.put(job);
+      logger.warn(`Job ${job.id} (${job.type}) attempt ${job.attempts} failed, retrying in ${delay}ms: ${error.message}`);
+      return;
+    }
+
+    job.status = 'failed';
+    job.finishedAt = job.updatedAt;
+    await this.backend.put(job);
+    logger.error(`Job ${job.id} (${job.type}) failed after ${job.attempts} attempts: ${error.message}`);
+
+    try {
+      await definition.failed?.(job.payload, error, job);
+    } catch (hookError) {
+      logger.error(`Failure handler for job ${job.id} threw:`, hookError);
+    }
+  }
+}
@@ -0,0 +1,51 @@
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface Job<TPayload = any> {
+  id: string;
+  type: string;
+  payload: TPayload;
+  status: JobStatus;
+  // Attempts started so far, including the one currently running
+  attempts: number;
+  maxAttempts: number;
+  timeoutMs: number;
+  backoffMs: number;
+  // Earliest time the job may start; pushed back after each failed attempt
+  runAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  lastError?: string;
+}
+
+export interface JobContext {
+  jobId: string;
+  attempt: number;
+  isFinalAttempt: boolean;
+  // Aborted when the job is cancelled or times out; long handlers should check it between steps
+  signal: AbortSignal;
+}
+
+export interface JobDefinition<TPayload = any> {
+  run(payload: TPayload, context: JobContext): Promise<void>;
+  // Called once when the last attempt has failed
+  failed?(payload: TPayload, error: Error, job: Job<TPayload>): Promise<void>;
+}
+
+export interface EnqueueOptions {
+  // Lets callers record the id before the job can start
+  id?: string;
+  maxAttempts?: number;
+  timeoutMs?: number;
+  backoffMs?: number;
+  delayMs?: number;
+}
+
+// Where jobs are kept between attempts. The in-memory backend loses jobs on
+// restart; persistent backends let the queue pick them up again.
+export interface JobBackend {
+  put(job: Job): Promise<Job>;
+  get(id: string): Promise<Job | null>;
+  listByStatus(status: JobStatus): Promise<Job[]>;
+}
@@ -0,0 +1,143 @@
+export interface BoundingBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface OCRWord {
+  text: string;
+  bbox: BoundingBox;
+  confidence?: number;
+}
+
+export interface LayoutRow {
+  words: OCRWord[];
+  // Cell text per column index; columns with no word in this row are empty strings
+  cells: string[];
+  top: number;
+  bottom: number;
+}
+
+export interface PageLayout {
+  rows: LayoutRow[];
+  columns: number[];
+  text: string;
+}
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+const centerY = (word: OCRWord): number => (word.bbox.y0 + word.bbox.y1) / 2;
+
+// Rebuilds table rows and columns from OCR word boxes so that program grids
+// (PP lines, entries) come out as one line per printed row instead of one
+// line per detected text block.
+export class LayoutService {
+  reconstruct(words: OCRWord[]): PageLayout {
+    const usable = words.filter(word => word.text.trim().length > 0 && word.bbox.y1 > word.bbox.y0);
+    if (usable.length === 0) {
+      return { rows: [], columns: [], text: '' };
+    }
+
+    const lineHeight = median(usable.map(word => word.bbox.y1 - word.bbox.y0));
+    const lines = this.groupIntoLines(usable, lineHeight);
+    const segmented = lines.map(line => this.splitIntoCells(line, lineHeight));
+    const columns = this.findColumns(segmented, lineHeight);
+
+    const rows: LayoutRow[] = segmented.map(cells => {
+      const rowWords = cells.flat();
+      const rowCells = columns.map(() => '');
+
+      cells.forEach(cell => {
+        const column = this.nearestColumn(columns, cell[0].bbox.x0);
+        const text = cell.map(word => word.text).join(' ');
+        rowCells[column] = rowCells[column] ? `${rowCells[column]} ${text}` : text;
+      });
+
+      return {
+        words: rowWords,
+        cells: rowCells,
+        top: Math.min(...rowWords.map(word => word.bbox.y0)),
+        bottom: Math.max(...rowWords.map(word => word.bbox.y1))
+      };
+    });
+
+    return {
+      rows,
+      columns,
+      text: rows.map(row => row.cells.filter(cell => cell.length > 0).join('  ')).join('\n')
+    };
+  }
+
+  // Words whose vertical centers fall within half a line height belong to the same row
+  private groupIntoLines(words: OCRWord[], lineHeight: number): OCRWord[][] {
+    const sorted = [...words].sort((a, b) => centerY(a) - centerY(b));
+    const lines: OCRWord[][] = [];
+    let current: OCRWord[] = [];
+    let currentCenter = 0;
+
+    for (const word of sorted) {
+      if (current.length > 0 && Math.abs(centerY(word) - currentCenter) > lineHeight / 2) {
+        lines.push(current);
+        current = [];
+      }
+
+      current.push(word);
+      currentCenter = current.reduce((sum, w) => sum + centerY(w), 0) / current.length;
+    }
+
+    if (current.length > 0) lines.push(current);
+
+    return lines.map(line => line.sort((a, b) => a.bbox.x0 - b.bbox.x0));
+  }
+
+  // A horizontal gap wider than about one character height starts a new cell
+  private splitIntoCells(line: OCRWord[], lineHeight: number): OCRWord[][] {
+    const cells: OCRWord[][] = [[line[0]]];
+
+    for (let i = 1; i < line.length; i++) {
+      const gap = line[i].bbox.x0 - line[i - 1].bbox.x1;
+      if (gap > lineHeight * 1.2) {
+        cells.push([line[i]]);
+      } else {
+        cells[cells.length - 1].push(line[i]);
+      }
+    }
+
+    return cells;
+  }
+
+  // Cell start positions that line up across rows become column anchors
+  private findColumns(rows: OCRWord[][][], lineHeight: number): number[] {
+    const starts = rows
+      .flatMap(cells => cells.map(cell => cell[0].bbox.x0))
+      .sort((a, b) => a - b);
+
+    const clusters: number[][] = [];
+    for (const start of starts) {
+      const cluster = clusters[clusters.length - 1];
+      if (cluster && start - cluster[cluster.length - 1] <= lineHeight) {
+        cluster.push(start);
+      } else {
+        clusters.push([start]);
+      }
+    }
+
+    return clusters.map(cluster => median(cluster));
+  }
+
+  private nearestColumn(columns: number[], x: number): number {
+    let best = 0;
+    for (let i = 1; i < columns.length; i++) {
+      if (Math.abs(columns[i] - x) < Math.abs(columns[best] - x)) best = i;
+    }
+    return best;
+  }
+}
+
+export const layoutService = new LayoutService();
@@ -0,0 +1,77 @@
+import { config } from '../config';
+import { OCRService } from './ocr.service';
+import { preprocessingPipeline } from './preprocessing';
+import { tesseractPool } from './tesseract.service';
+
+jest.mock('./preprocessing', () => ({
+  preprocessingPipeline: { run: jest.fn() }
+}));
+
+jest.mock('./tesseract.service', () => ({
+  tesseractPool: { recognize: jest.fn() }
+}));
+
+const runPreprocessing = preprocessingPipeline.run as jest.Mock;
+const recognize = tesseractPool.recognize as jest.Mock;
+
+const TEXT = 'SANTA ANITA PARK\nRACE 1\n1 Silver Charm 5-2';
+
+// Vision is private and only built from credentials, so the test hands it a failing client
+const withFailingVision = (service: OCRService) => {
+  const documentTextDetection = jest.fn().mockRejectedValue(new Error('Vision quota exceeded'));
+  (service as any).visionClient = { documentTextDetection };
+  return documentTextDetection;
+};
+
+describe('OCRService', () => {
+  const consensus = config.ocr.consensus;
+
+  beforeEach(() => {
+    runPreprocessing.mockReset().mockResolvedValue(Buffer.from('image'));
+    recognize.mockReset().mockResolvedValue({ data: { text: TEXT, confidence: 90, words: [] } });
+  });
+
+  afterEach(() => {
+    config.ocr.consensus = consensus;
+  });
+
+  it('reads the image with Tesseract when Google Vision fails', async () => {
+    const service = new OCRService();
+    const documentTextDetection = withFailingVision(service);
+
+    const result = await service.processFile('/uploads/card.png', 'card.png');
+
+    expect(documentTextDetection).toHaveBeenCalled();
+    expect(result.success).toBe(true);
+    expect(result.text).toBe(TEXT);
+    expect(result.pages?.[0].engine).toBe('tesseract');
+  });
+
+  it('merges the remaining readings when Google Vision fails in consensus mode', async () => {
+    config.ocr.consensus = true;
+    const service = new OCRService();
+    withFailingVision(service);
+
+    const result = await service.processFile('/uploads/card.png', 'card.png');
+
+    expect(result.success).toBe(true);
+    expect(result.pages?.[0].engine).toBe('consensus');
+    // Every Tesseract preset votes when there is no Vision reading
+    expect(runPreprocessing.mock.calls.map(([, preset]) => preset)).toEqual(['photo', 'threshold', 'upscale']);
+  });
+
+  it('stops after preprocessing once the job is aborted', async () => {
+    const service = new OCRService();
+    const controller = new AbortController();
+    runPreprocessing.mockImplementation(async () => {
+      controller.abort(new Error('Job timed out'));
+      return Buffer.from('image');
+    });
+
+    const result = await service.processFile('/uploads/card.jpg', 'card.jpg', undefined, controller.signal);
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual(['Job timed out']);
+    expect(recognize).not.toHaveBeenCalled();
+  });
+});
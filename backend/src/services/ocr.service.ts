@@ -1,14 +1,42 @@
-import { createWorker } from 'tesseract.js';
-import vision from '@google-cloud/vision';
+import vision, { protos } from '@google-cloud/vision';
 import pdfParse from 'pdf-parse';
-import sharp from 'sharp';
+import { fromPath } from 'pdf2pic';
 import { config } from '../config';
-import { OCRResult, RaceCard, Race, Horse } from '@railbird/shared';
+import { OCRResult, OCRPageResult, OCRBlockResult, OCREngine } from '@railbird/shared';
 import { logger } from '../utils/logger';
+import { parserRegistry, applyDocumentConfidence } from './parsers';
+import { parseRaceHeader } from './parsers/fields';
+import { layoutService, OCRWord } from './layout.service';
+import { consensusService, ConsensusCandidate } from './consensus.service';
+import { preprocessingPipeline } from './preprocessing';
+import { tesseractPool } from './tesseract.service';
 import fs from 'fs/promises';
+import path from 'path';
+
+interface TextRecognition {
+  text: string;
+  confidence: number;
+  engine: OCREngine;
+  words?: OCRWord[];
+  blocks?: OCRBlockResult[];
+}
+
+type VisionBoundingPoly = protos.google.cloud.vision.v1.IBoundingPoly;
+type VisionBlock = protos.google.cloud.vision.v1.IBlock;
+type VisionWord = protos.google.cloud.vision.v1.IWord;
+
+// Called before each page is recognized, with 1-based page numbers
+export type OCRProgressCallback = (page: number, totalPages: number) => void;
+
+// Extra preprocessing presets read by Tesseract in consensus mode when Google Vision is not configured
+const CONSENSUS_PRESETS = ['threshold', 'upscale'];
+
+// Resolution used when rasterizing scanned PDF pages for OCR
+const PDF_RENDER_DENSITY = 300;
+const PDF_RENDER_WIDTH = 2550;
 
 export class OCRService {
-  private visionClient?: vision.ImageAnnotatorClient;
+  private visionClient?: InstanceType<typeof vision.ImageAnnotatorClient>;
 
   constructor() {
     if (config.googleCloud.keyFilename || config.googleCloud.apiKey) {
@@ -19,17 +47,24 @@ export class OCRService {
     }
   }
 
-  async processFile(filePath: string, fileName: string): Promise<OCRResult> {
+  // An aborted signal stops recognition before the next page, so a timed-out job
+  // does not keep the Tesseract workers busy under its retry
+  async processFile(
+    filePath: string,
+    fileName: string,
+    onProgress?: OCRProgressCallback,
+    signal?: AbortSignal
+  ): Promise<OCRResult> {
     try {
       const fileExtension = fileName.toLowerCase().split('.').pop();
       
       switch (fileExtension) {
         case 'pdf':
-          return await this.processPDF(filePath);
+          return await this.processPDF(filePath, onProgress, signal);
         case 'jpg':
         case 'jpeg':
         case 'png':
-          return await this.processImage(filePath);
+          return await this.processImage(filePath, onProgress, signal);
         default:
           throw new Error(`Unsupported file type: ${fileExtension}`);
       }
@@ -44,31 +79,41 @@ export class OCRService {
     }
   }
 
-  private async processPDF(filePath: string): Promise<OCRResult> {
+  // Photographed pages of one program: each page is recognized, the pages are put
+  // in race order and the combined text is parsed as a single document
+  async processPages(filePaths: string[], onProgress?: OCRProgressCallback, signal?: AbortSignal): Promise<OCRResult> {
+    try {
+      const pages = await this.recognizePages(filePaths, onProgress, config.ocr.preprocess.preset, signal);
+      return this.buildPagedResult(this.orderPages(pages));
+    } catch (error) {
+      logger.error('Multi-page OCR processing error:', error);
+      return {
+        success: false,
+        text: '',
+        confidence: 0,
+        errors: [error instanceof Error ? error.message : 'Unknown error']
+      };
+    }
+  }
+
+  private async processPDF(filePath: string, onProgress?: OCRProgressCallback, signal?: AbortSignal): Promise<OCRResult> {
     try {
       const dataBuffer = await fs.readFile(filePath);
       const pdfData = await pdfParse(dataBuffer);
       
       if (pdfData.text && pdfData.text.length > 100) {
         // PDF has extractable text
-        const extractedData = this.parseRaceData(pdfData.text);
         return {
           success: true,
           text: pdfData.text,
           confidence: 0.9,
-          extractedData
+          needsReview: this.needsReview(0.9),
+          ...this.parseRaceData(pdfData.text, 0.9)
         };
       } else {
         // PDF needs OCR - convert to images first
         logger.info('PDF has no extractable text, using OCR...');
-        // For now, return the limited text we found
-        const extractedData = this.parseRaceData(pdfData.text);
-        return {
-          success: true,
-          text: pdfData.text,
-          confidence: 0.5,
-          extractedData
-        };
+        return await this.processScannedPDF(filePath, onProgress, signal);
       }
     } catch (error) {
       logger.error('PDF processing error:', error);
@@ -76,262 +121,341 @@ export class OCRService {
     }
   }
 
-  private async processImage(filePath: string): Promise<OCRResult> {
+  private async processScannedPDF(filePath: string, onProgress?: OCRProgressCallback, signal?: AbortSignal): Promise<OCRResult> {
+    const pageDir = await fs.mkdtemp(path.join('temp', 'pdf-pages-'));
+
     try {
-      // Try Google Cloud Vision first if available
-      if (this.visionClient) {
-        return await this.processWithGoogleVision(filePath);
+      const convert = fromPath(filePath, {
+        density: PDF_RENDER_DENSITY,
+        width: PDF_RENDER_WIDTH,
+        preserveAspectRatio: true,
+        format: 'png',
+        savePath: pageDir,
+        saveFilename: 'page'
+      });
+
+      const renderedPages = await convert.bulk(-1, { responseType: 'image' });
+      const pageImages = renderedPages
+        .filter(page => page.path && page.page)
+        .sort((a, b) => a.page! - b.page!);
+
+      if (pageImages.length === 0) {
+        throw new Error('Could not render any pages from PDF');
       }
-      
-      // Fallback to Tesseract
-      return await this.processWithTesseract(filePath);
-    } catch (error) {
-      logger.error('Image processing error:', error);
-      throw error;
+
+      const pages = await this.recognizePages(
+        pageImages.map(page => page.path!),
+        onProgress,
+        config.ocr.preprocess.pdfPreset,
+        signal
+      );
+      return this.buildPagedResult(pages);
+    } finally {
+      await fs.rm(pageDir, { recursive: true, force: true });
     }
   }
 
-  private async processWithGoogleVision(filePath: string): Promise<OCRResult> {
-    try {
-      const [result] = await this.visionClient!.textDetection(filePath);
-      const detections = result.textAnnotations;
-      
-      if (!detections || detections.length === 0) {
-        throw new Error('No text detected in image');
+  private async recognizePages(
+    imagePaths: string[],
+    onProgress?: OCRProgressCallback,
+    preset: string = config.ocr.preprocess.preset,
+    signal?: AbortSignal
+  ): Promise<OCRPageResult[]> {
+    const pages: OCRPageResult[] = [];
+
+    for (let i = 0; i < imagePaths.length; i++) {
+      signal?.throwIfAborted();
+      logger.info(`Running OCR on page ${i + 1} of ${imagePaths.length}`);
+      onProgress?.(i + 1, imagePaths.length);
+      const recognition = await this.recognizeImage(imagePaths[i], preset, signal);
+      pages.push(this.toPageResult(i + 1, recognition));
+    }
+
+    return pages;
+  }
+
+  private buildPagedResult(pages: OCRPageResult[]): OCRResult {
+    const text = pages.map(page => page.text).join('\n');
+    const confidence = this.combinePageConfidence(pages);
+
+    return {
+      success: true,
+      text,
+      confidence,
+      needsReview: this.needsReview(confidence, pages),
+      pages,
+      ...this.parseRaceData(text, confidence)
+    };
+  }
+
+  // Pages may be photographed in any order. A page with a race header starts a
+  // group keyed by the first race on it; a page without one continues the race of
+  // the page uploaded before it and joins that page's group. Groups are then sorted by
+  // race, and page numbers keep the upload position.
+  private orderPages(pages: OCRPageResult[]): OCRPageResult[] {
+    const groups: { raceNumber: number; pages: OCRPageResult[] }[] = [];
+
+    for (const page of pages) {
+      const firstRace = page.text
+        .split('\n')
+        .map(line => parseRaceHeader(line))
+        .find((raceNumber): raceNumber is number => raceNumber !== null);
+
+      if (firstRace === undefined && groups.length > 0) {
+        groups[groups.length - 1].pages.push(page);
+      } else {
+        // A leading page with no race (cover, track header) stays in front
+        groups.push({ raceNumber: firstRace ?? 0, pages: [page] });
       }
+    }
 
-      const text = detections[0].description || '';
-      const confidence = this.calculateGoogleVisionConfidence(detections);
-      const extractedData = this.parseRaceData(text);
+    // Array.prototype.sort is stable, so pages of the same race keep upload order
+    return groups
+      .sort((a, b) => a.raceNumber - b.raceNumber)
+      .flatMap(group => group.pages);
+  }
+
+  // Weights each page by the amount of text it contributed
+  private combinePageConfidence(pages: OCRPageResult[]): number {
+    const totalLength = pages.reduce((sum, page) => sum + page.text.length, 0);
+    if (totalLength === 0) return 0;
+
+    return pages.reduce((sum, page) => sum + page.confidence * page.text.length, 0) / totalLength;
+  }
+
+  private async processImage(filePath: string, onProgress?: OCRProgressCallback, signal?: AbortSignal): Promise<OCRResult> {
+    try {
+      onProgress?.(1, 1);
+      const recognition = await this.recognizeImage(filePath, config.ocr.preprocess.preset, signal);
+      const { text, confidence } = recognition;
+      const pages = [this.toPageResult(1, recognition)];
 
       return {
         success: true,
         text,
         confidence,
-        extractedData
+        needsReview: this.needsReview(confidence, pages),
+        pages,
+        ...this.parseRaceData(text, confidence)
       };
     } catch (error) {
-      logger.error('Google Vision error:', error);
+      logger.error('Image processing error:', error);
       throw error;
     }
   }
 
-  private async processWithTesseract(filePath: string): Promise<OCRResult> {
-    const worker = await createWorker();
-    
-    try {
-      // Preprocess image for better OCR
-      const processedImagePath = await this.preprocessImage(filePath);
-      
-      await worker.loadLanguage('eng');
-      await worker.initialize('eng');
-      
-      const { data } = await worker.recognize(processedImagePath);
-      
-      const extractedData = this.parseRaceData(data.text);
-      
-      return {
-        success: true,
-        text: data.text,
-        confidence: data.confidence / 100,
-        extractedData
-      };
-    } finally {
-      await worker.terminate();
-    }
+  private toPageResult(pageNumber: number, recognition: TextRecognition): OCRPageResult {
+    return {
+      pageNumber,
+      text: recognition.text,
+      confidence: recognition.confidence,
+      engine: recognition.engine,
+      blocks: recognition.blocks
+    };
   }
 
-  private async preprocessImage(filePath: string): Promise<string> {
-    const outputPath = filePath.replace(/\.[^/.]+$/, '_processed.png');
-    
-    await sharp(filePath)
-      .greyscale()
-      .normalize()
-      .sharpen()
-      .png()
-      .toFile(outputPath);
+  // Flags results that are weak overall or that have a page the user should double-check
+  private needsReview(confidence: number, pages: OCRPageResult[] = []): boolean {
+    return confidence < config.ocr.reviewConfidence ||
+      pages.some(page => page.confidence < config.ocr.reviewConfidence);
+  }
+
+  private async recognizeImage(
+    filePath: string,
+    preset: string = config.ocr.preprocess.preset,
+    signal?: AbortSignal
+  ): Promise<TextRecognition> {
+    if (config.ocr.consensus) {
+      return await this.recognizeWithConsensus(filePath, preset, signal);
+    }
+
+    // Try Google Cloud Vision first if available
+    const visionResult = await this.tryGoogleVision(filePath);
+    if (visionResult) {
+      if (visionResult.confidence >= config.ocr.visionFallbackConfidence) {
+        return visionResult;
+      }
+
+      logger.info(`Google Vision confidence ${visionResult.confidence.toFixed(2)} is low, trying Tesseract`);
+      const tesseractResult = await this.processWithTesseract(filePath, preset, signal);
+      return tesseractResult.confidence > visionResult.confidence ? tesseractResult : visionResult;
+    }
     
-    return outputPath;
+    // Fallback to Tesseract
+    return await this.processWithTesseract(filePath, preset, signal);
   }
 
-  private calculateGoogleVisionConfidence(detections: any[]): number {
-    // Google Vision doesn't provide confidence scores for text detection
-    // Estimate based on number of detected words and bounding box accuracy
-    if (detections.length > 1) return 0.85;
-    return 0.7;
+  private async recognizeWithConsensus(filePath: string, preset: string, signal?: AbortSignal): Promise<TextRecognition> {
+    const readings: TextRecognition[] = [];
+    const candidates: ConsensusCandidate[] = [];
+
+    const visionResult = await this.tryGoogleVision(filePath);
+    if (visionResult) {
+      readings.push(visionResult);
+      candidates.push({ source: 'google-vision', text: visionResult.text, confidence: visionResult.confidence });
+    }
+
+    // Without a Vision reading to vote against, Tesseract reads the extra presets
+    const presets = visionResult ? [preset] : [preset, ...CONSENSUS_PRESETS.filter(name => name !== preset)];
+    for (const presetName of presets) {
+      const tesseractResult = await this.processWithTesseract(filePath, presetName, signal);
+      readings.push(tesseractResult);
+      candidates.push({ source: `tesseract:${presetName}`, text: tesseractResult.text, confidence: tesseractResult.confidence });
+    }
+
+    const merged = consensusService.merge(candidates);
+    logger.info(`Consensus merged ${candidates.length} readings, ${merged.resolvedLines} lines resolved by vote`);
+
+    // Block scores come from the single most confident reading
+    const best = [...readings].sort((a, b) => b.confidence - a.confidence)[0];
+
+    return {
+      text: merged.text,
+      confidence: merged.confidence,
+      engine: 'consensus',
+      blocks: best.blocks
+    };
   }
 
-  private parseRaceData(text: string): Partial<RaceCard> {
-    try {
-      const races = this.extractRaces(text);
-      const track = this.extractTrack(text);
-      const date = this.extractDate(text);
+  // Vision is optional: a missing client, an outage or a page with no detected text
+  // leaves the image to Tesseract instead of failing the upload
+  private async tryGoogleVision(filePath: string): Promise<TextRecognition | null> {
+    if (!this.visionClient) return null;
 
-      return {
-        track: track || 'Unknown Track',
-        date: date || new Date().toISOString().split('T')[0],
-        races
-      };
+    try {
+      return await this.processWithGoogleVision(filePath);
     } catch (error) {
-      logger.error('Race data parsing error:', error);
-      return {};
+      logger.warn(`Google Vision failed, falling back to Tesseract: ${error instanceof Error ? error.message : error}`);
+      return null;
     }
   }
 
-  private extractRaces(text: string): Race[] {
-    const races: Race[] = [];
-    const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
-    
-    // Look for race headers (e.g., "RACE 1", "1st RACE", etc.)
-    const raceHeaderRegex = /(?:RACE\s+(\d+)|(\d+)(?:st|nd|rd|th)?\s+RACE)/i;
-    
-    let currentRace: Partial<Race> | null = null;
-    let currentHorses: Horse[] = [];
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const raceMatch = line.match(raceHeaderRegex);
+  private async processWithGoogleVision(filePath: string): Promise<TextRecognition> {
+    try {
+      const [result] = await this.visionClient!.documentTextDetection(filePath);
+      const annotation = result.fullTextAnnotation;
       
-      if (raceMatch) {
-        // Save previous race if exists
-        if (currentRace && currentHorses.length > 0) {
-          races.push({
-            ...currentRace,
-            horses: currentHorses
-          } as Race);
-        }
-        
-        // Start new race
-        const raceNumber = parseInt(raceMatch[1] || raceMatch[2]);
-        currentRace = {
-          id: `race-${raceNumber}`,
-          number: raceNumber,
-          track: 'Unknown',
-          date: new Date().toISOString().split('T')[0],
-          horses: []
-        };
-        currentHorses = [];
-        
-        // Look for race conditions in next few lines
-        for (let j = i + 1; j < Math.min(i + 5, lines.length); j++) {
-          const conditionLine = lines[j];
-          const distance = this.extractDistance(conditionLine);
-          const surface = this.extractSurface(conditionLine);
-          const purse = this.extractPurse(conditionLine);
-          
-          if (distance) currentRace.distance = distance;
-          if (surface) currentRace.surface = surface;
-          if (purse) currentRace.purse = purse;
-        }
-      } else if (currentRace) {
-        // Try to extract horse information
-        const horse = this.extractHorseFromLine(line);
-        if (horse) {
-          currentHorses.push(horse);
+      if (!annotation || !annotation.text) {
+        throw new Error('No text detected in image');
+      }
+
+      const blocks: OCRBlockResult[] = [];
+      const words: OCRWord[] = [];
+      let weightedConfidence = 0;
+      let totalSymbols = 0;
+
+      for (const page of annotation.pages || []) {
+        for (const block of page.blocks || []) {
+          const blockWords = this.extractVisionWords(block);
+          const blockSymbols = blockWords.reduce((sum, word) => sum + word.text.length, 0);
+          const blockConfidence = this.calculateGoogleVisionConfidence(blockWords);
+
+          blocks.push({
+            text: blockWords.map(word => word.text).join(' '),
+            confidence: blockConfidence
+          });
+          words.push(...blockWords);
+
+          weightedConfidence += blockConfidence * blockSymbols;
+          totalSymbols += blockSymbols;
         }
       }
+
+      const text = this.reconstructLayout(words, annotation.text);
+      const confidence = totalSymbols > 0 ? weightedConfidence / totalSymbols : 0;
+
+      return { text, confidence, engine: 'google-vision', words, blocks };
+    } catch (error) {
+      logger.error('Google Vision error:', error);
+      throw error;
     }
-    
-    // Add the last race
-    if (currentRace && currentHorses.length > 0) {
-      races.push({
-        ...currentRace,
-        horses: currentHorses
-      } as Race);
-    }
-    
-    return races;
   }
 
-  private extractHorseFromLine(line: string): Horse | null {
-    // Pattern for horse entries: "1. HORSE NAME (Jockey) 5-1"
-    const horsePattern = /^(\d{1,2})\.?\s+([A-Z\s']+?)\s*(?:\(([^)]+)\))?\s*(?:(\d+-\d+|\d+\/\d+))?\s*$/i;
-    const match = line.match(horsePattern);
-    
-    if (!match) return null;
-    
-    const [, numberStr, name, jockey, odds] = match;
-    
+  private extractVisionWords(block: VisionBlock): OCRWord[] {
+    return (block.paragraphs || []).flatMap(paragraph =>
+      (paragraph.words || []).map((word: VisionWord) => {
+        const symbols = word.symbols || [];
+        const symbolConfidences = symbols
+          .map(symbol => symbol.confidence)
+          .filter((confidence): confidence is number => typeof confidence === 'number');
+
+        return {
+          text: symbols.map(symbol => symbol.text || '').join(''),
+          bbox: this.toBoundingBox(word.boundingBox),
+          // Vision scores every symbol; fall back to the word score when symbols carry none
+          confidence: symbolConfidences.length > 0
+            ? symbolConfidences.reduce((sum, confidence) => sum + confidence, 0) / symbolConfidences.length
+            : word.confidence ?? undefined
+        };
+      })
+    );
+  }
+
+  private toBoundingBox(poly?: VisionBoundingPoly | null) {
+    const vertices = poly?.vertices || [];
+    const xs = vertices.map(vertex => vertex.x || 0);
+    const ys = vertices.map(vertex => vertex.y || 0);
+
     return {
-      id: `horse-${numberStr}`,
-      number: parseInt(numberStr),
-      name: name.trim(),
-      jockey: jockey?.trim() || 'Unknown',
-      trainer: 'Unknown',
-      weight: 120, // Default weight
-      odds: odds?.trim(),
-      speedFigures: {},
-      pastPerformances: []
+      x0: xs.length ? Math.min(...xs) : 0,
+      y0: ys.length ? Math.min(...ys) : 0,
+      x1: xs.length ? Math.max(...xs) : 0,
+      y1: ys.length ? Math.max(...ys) : 0
     };
   }
 
-  private extractTrack(text: string): string | null {
-    // Common track patterns
-    const trackPatterns = [
-      /SANTA ANITA/i,
-      /GULFSTREAM/i,
-      /CHURCHILL DOWNS/i,
-      /BELMONT/i,
-      /SARATOGA/i,
-      /KEENELAND/i,
-      /OAKLAWN/i,
-      /FAIR GROUNDS/i,
-      /AQUEDUCT/i,
-      /WOODBINE/i
-    ];
-    
-    for (const pattern of trackPatterns) {
-      const match = text.match(pattern);
-      if (match) return match[0].toUpperCase();
-    }
-    
-    return null;
-  }
+  private async processWithTesseract(filePath: string, preset: string, signal?: AbortSignal): Promise<TextRecognition> {
+    signal?.throwIfAborted();
 
-  private extractDate(text: string): string | null {
-    // Date patterns: "March 15, 2024", "03/15/2024", "2024-03-15"
-    const datePatterns = [
-      /(\w+\s+\d{1,2},\s+\d{4})/,
-      /(\d{1,2}\/\d{1,2}\/\d{4})/,
-      /(\d{4}-\d{2}-\d{2})/
-    ];
-    
-    for (const pattern of datePatterns) {
-      const match = text.match(pattern);
-      if (match) {
-        const dateStr = match[1];
-        const date = new Date(dateStr);
-        if (!isNaN(date.getTime())) {
-          return date.toISOString().split('T')[0];
-        }
-      }
-    }
+    // Preprocess image for better OCR
+    const processedImage = await preprocessingPipeline.run(filePath, preset);
+    signal?.throwIfAborted();
+
+    const { data } = await tesseractPool.recognize(processedImage);
+
+    const words: OCRWord[] = (data.words || []).map(word => ({
+      text: word.text,
+      bbox: word.bbox,
+      confidence: word.confidence / 100
+    }));
     
-    return null;
+    return {
+      text: this.reconstructLayout(words, data.text),
+      confidence: data.confidence / 100,
+      engine: 'tesseract',
+      words
+    };
   }
 
-  private extractDistance(text: string): string | null {
-    const distancePattern = /(\d+(?:\.\d+)?\s*(?:furlongs?|miles?|f|m))/i;
-    const match = text.match(distancePattern);
-    return match ? match[1] : null;
+  // Falls back to the engine's own text when there are no usable word boxes
+  private reconstructLayout(words: OCRWord[], fallbackText: string): string {
+    if (words.length === 0) return fallbackText;
+
+    const layout = layoutService.reconstruct(words);
+    logger.info(`Reconstructed layout: ${layout.rows.length} rows, ${layout.columns.length} columns`);
+
+    return layout.text || fallbackText;
   }
 
-  private extractSurface(text: string): 'dirt' | 'turf' | 'synthetic' | null {
-    if (/turf|grass/i.test(text)) return 'turf';
-    if (/synthetic|poly/i.test(text)) return 'synthetic';
-    if (/dirt|main/i.test(text)) return 'dirt';
-    return null;
+  private parseRaceData(text: string, confidence: number): Pick<OCRResult, 'extractedData' | 'parser'> {
+    const { parser, score } = parserRegistry.select(text);
+    logger.info(`Parsing race data with ${parser.name} parser (score ${score.toFixed(2)})`);
+
+    return {
+      extractedData: applyDocumentConfidence(parser.parse(text), confidence),
+      parser: { name: parser.name, score }
+    };
   }
 
-  private extractPurse(text: string): number | null {
-    const pursePattern = /\$?([\d,]+)/;
-    const match = text.match(pursePattern);
-    if (match) {
-      const amount = parseInt(match[1].replace(/,/g, ''));
-      if (amount > 1000) return amount; // Reasonable purse amount
-    }
-    return null;
+  // Mean word confidence weighted by word length, so long numbers count more than stray marks
+  private calculateGoogleVisionConfidence(words: OCRWord[]): number {
+    const scored = words.filter(word => word.confidence !== undefined);
+    const totalLength = scored.reduce((sum, word) => sum + word.text.length, 0);
+    if (totalLength === 0) return 0;
+
+    return scored.reduce((sum, word) => sum + word.confidence! * word.text.length, 0) / totalLength;
   }
+
 }
 
 export const ocrService = new OCRService();
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { FileUpload, FileUploadStatus } from '@railbird/shared';
+import { Job, jobQueue } from './jobs';
+import { OcrJobService } from './ocrJob.service';
+import { uploadService } from './upload.service';
+
+const upload = (id: string, status: FileUploadStatus, changes: Partial<FileUpload> = {}): FileUpload => ({
+  id,
+  userId: 'user-1',
+  originalName: `${id}.jpg`,
+  fileSize: 1024,
+  mimeType: 'image/jpeg',
+  uploadedAt: new Date('2024-08-15T12:00:00Z'),
+  status,
+  storedFiles: [`${id}.jpg`],
+  ...changes
+});
+
+const job = (id: string, status: Job['status'], lastError?: string): Job => ({
+  id,
+  type: 'ocr',
+  payload: {},
+  status,
+  attempts: 1,
+  maxAttempts: 3,
+  timeoutMs: 1000,
+  backoffMs: 10,
+  runAt: new Date(),
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...(lastError && { lastError })
+});
+
+describe('OcrJobService.recoverInterrupted', () => {
+  let uploads: FileUpload[];
+  let jobs: Job[];
+
+  beforeEach(() => {
+    jest.spyOn(uploadService, 'getUploadsByStatus')
+      .mockImplementation(async status => uploads.filter(item => item.status === status));
+    jest.spyOn(uploadService, 'getUpload')
+      .mockImplementation(async fileId => uploads.find(item => item.id === fileId) || null);
+    jest.spyOn(uploadService, 'transition')
+      .mockImplementation(async (fileUpload, status, _message, changes = {}) => Object.assign(fileUpload, changes, { status }));
+    jest.spyOn(jobQueue, 'getJob')
+      .mockImplementation(async jobId => jobs.find(item => item.id === jobId) || null);
+    jest.spyOn(jobQueue, 'enqueue')
+      .mockImplementation(async (type, payload, options) => ({ ...job(options!.id!, 'queued'), type, payload }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('shows uploads whose job will be rerun as queued', async () => {
+    uploads = [upload('a', 'processing', { jobId: 'job-a' }), upload('b', 'queued', { jobId: 'job-b' })];
+    jobs = [job('job-a', 'running'), job('job-b', 'queued')];
+
+    await new OcrJobService().recoverInterrupted();
+
+    expect(uploads.map(item => item.status)).toEqual(['queued', 'queued']);
+    expect(jobQueue.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('queues uploads again when their job was lost', async () => {
+    uploads = [upload('a', 'processing', { jobId: 'lost' })];
+    jobs = [];
+
+    await new OcrJobService().recoverInterrupted();
+
+    expect(jobQueue.enqueue).toHaveBeenCalledWith('ocr', { fileId: 'a' }, { id: expect.any(String) });
+    expect(uploads[0].status).toBe('queued');
+    expect(uploads[0].jobId).not.toBe('lost');
+  });
+
+  it('fails uploads that cannot be rerun', async () => {
+    uploads = [
+      upload('a', 'processing', { jobId: 'lost', storedFiles: [] }),
+      upload('b', 'processing', { jobId: 'job-b' })
+    ];
+    jobs = [job('job-b', 'failed', 'Tesseract crashed')];
+
+    await new OcrJobService().recoverInterrupted();
+
+    expect(uploads.map(item => item.status)).toEqual(['failed', 'failed']);
+    expect(uploads[0].ocrResult?.errors).toEqual(['The original file for this upload is no longer stored']);
+    expect(uploads[1].ocrResult?.errors).toEqual(['Tesseract crashed']);
+  });
+});
@@ -0,0 +1,218 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Server as SocketIOServer } from 'socket.io';
+import path from 'path';
+import { FileUpload, OCRResult, RaceCard, assignCardRaceIds, createError } from '@railbird/shared';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { jobQueue, JobContext } from './jobs';
+import { ocrService } from './ocr.service';
+import { raceCardService } from './raceCard.service';
+import { uploadService } from './upload.service';
+
+export interface OcrJobPayload {
+  fileId: string;
+}
+
+const OCR_JOB = 'ocr';
+
+// Runs upload OCR as background jobs and reports progress over the socket server
+export class OcrJobService {
+  private io?: SocketIOServer;
+
+  // Called once at startup, before the job queue starts
+  register(io: SocketIOServer): void {
+    this.io = io;
+    jobQueue.register<OcrJobPayload>(OCR_JOB, {
+      run: (payload, context) => this.process(payload, context),
+      failed: (payload, error) => this.markFailed(payload.fileId, error)
+    });
+  }
+
+  // Called at startup, before the job queue starts. Uploads still queued or processing
+  // lost their run when the server stopped: one whose job survived is shown as queued
+  // until the queue picks it up again, one whose job is gone (the memory backend keeps
+  // none) is queued again, and one that cannot be rerun is failed.
+  async recoverInterrupted(): Promise<void> {
+    const uploads = [
+      ...await uploadService.getUploadsByStatus('queued'),
+      ...await uploadService.getUploadsByStatus('processing')
+    ];
+
+    for (const fileUpload of uploads) {
+      try {
+        const job = fileUpload.jobId ? await jobQueue.getJob(fileUpload.jobId) : null;
+
+        if (job?.status === 'queued' || job?.status === 'running') {
+          if (fileUpload.status === 'processing') {
+            await uploadService.transition(fileUpload, 'queued', 'Requeued after a server restart');
+          }
+        } else if (job?.status === 'cancelled') {
+          await uploadService.transition(fileUpload, 'cancelled', 'Processing cancelled');
+        } else if (job) {
+          await this.markFailed(fileUpload.id, new Error(job.lastError || 'Processing was interrupted by a server restart'));
+        } else {
+          await this.enqueue(fileUpload, 'Requeued after a server restart')
+            .catch(error => this.markFailed(fileUpload.id, error));
+        }
+      } catch (error) {
+        logger.error(`Failed to recover upload ${fileUpload.id}:`, error);
+      }
+    }
+
+    if (uploads.length > 0) {
+      logger.info(`Checked ${uploads.length} uploads left unfinished by the last run`);
+    }
+  }
+
+  async enqueue(fileUpload: FileUpload, message = 'Queued for processing'): Promise<FileUpload> {
+    if (!fileUpload.storedFiles || fileUpload.storedFiles.length === 0) {
+      throw createError('The original file for this upload is no longer stored', 'INVALID_UPLOAD_STATE');
+    }
+
+    const jobId = uuidv4();
+    await uploadService.transition(fileUpload, 'queued', message, { jobId });
+    await jobQueue.enqueue<OcrJobPayload>(OCR_JOB, { fileId: fileUpload.id }, { id: jobId });
+
+    this.emit(fileUpload, { status: 'queued', message });
+    return fileUpload;
+  }
+
+  // Re-runs OCR on the stored file, e.g. after parser improvements
+  async reprocess(fileUpload: FileUpload): Promise<FileUpload> {
+    if (fileUpload.status === 'queued' || fileUpload.status === 'processing') {
+      throw createError('Upload is already being processed', 'INVALID_UPLOAD_STATE');
+    }
+
+    return this.enqueue(fileUpload, 'Queued for reprocessing');
+  }
+
+  async cancel(fileUpload: FileUpload): Promise<FileUpload> {
+    if (fileUpload.status !== 'queued' && fileUpload.status !== 'processing') {
+      throw createError(`Upload is already ${fileUpload.status}`, 'INVALID_UPLOAD_STATE');
+    }
+
+    if (fileUpload.jobId) {
+      await jobQueue.cancel(fileUpload.jobId);
+    }
+
+    await uploadService.transition(fileUpload, 'cancelled', 'Processing cancelled');
+    this.emit(fileUpload, { status: 'cancelled', message: 'Processing cancelled' });
+
+    return fileUpload;
+  }
+
+  private async process(payload: OcrJobPayload, context: JobContext): Promise<void> {
+    const fileUpload = await uploadService.getUpload(payload.fileId);
+    if (!fileUpload || fileUpload.status === 'cancelled') {
+      logger.info(`Skipping OCR job ${context.jobId}: upload ${payload.fileId} is gone or cancelled`);
+      return;
+    }
+
+    const filePaths = (fileUpload.storedFiles || []).map(name => path.join(config.upload.uploadPath, name));
+
+    try {
+      await uploadService.transition(fileUpload, 'processing', 'Starting OCR processing...');
+      this.emit(fileUpload, { status: 'processing', message: 'Starting OCR processing...' });
+
+      logger.info(`Starting OCR processing for file: ${fileUpload.originalName} (attempt ${context.attempt})`);
+
+      const onProgress = (page: number, totalPages: number) => {
+        this.emit(fileUpload, {
+          status: 'processing',
+          page,
+          totalPages,
+          message: `Processing page ${page} of ${totalPages}`
+        });
+      };
+
+      // Page uploads are recognized page by page and stitched into one card
+      const ocrResult: OCRResult = filePaths.length > 1
+        ? await ocrService.processPages(filePaths, onProgress, context.signal)
+        : await ocrService.processFile(filePaths[0], fileUpload.originalName, onProgress, context.signal);
+
+      // Cancelled or timed out while OCR was running; the queue has already recorded the outcome
+      if (context.signal.aborted) return;
+
+      if (!ocrResult.success || !ocrResult.extractedData) {
+        throw new Error(ocrResult.errors?.join('; ') || 'Failed to extract race data from file');
+      }
+
+      fileUpload.ocrResult = ocrResult;
+
+      // Create race card if data was extracted
+      if (ocrResult.extractedData.races && ocrResult.extractedData.races.length > 0) {
+        const raceCard: RaceCard = {
+          id: fileUpload.raceCardId || uuidv4(),
+          track: ocrResult.extractedData.track || 'Unknown Track',
+          trackCode: ocrResult.extractedData.trackCode,
+          date: ocrResult.extractedData.date || new Date().toISOString().split('T')[0],
+          ...((ocrResult.extractedData.dateAssumed || !ocrResult.extractedData.date) && { dateAssumed: true }),
+          races: ocrResult.extractedData.races,
+          uploadedAt: fileUpload.uploadedAt,
+          userId: fileUpload.userId,
+          originalFileName: fileUpload.originalName,
+          needsReview: ocrResult.needsReview
+        };
+
+        assignCardRaceIds(raceCard);
+
+        if (fileUpload.raceCardId) {
+          await raceCardService.replaceRaceCard(raceCard);
+        } else {
+          await raceCardService.saveRaceCard(raceCard);
+          fileUpload.raceCardId = raceCard.id;
+        }
+
+        logger.info(`Race card ${raceCard.id} stored with ${raceCard.races.length} races`);
+      }
+
+      await uploadService.transition(fileUpload, 'completed', 'File processed successfully');
+
+      this.emit(fileUpload, {
+        status: 'completed',
+        message: 'File processed successfully',
+        raceCardId: fileUpload.raceCardId,
+        needsReview: ocrResult.needsReview,
+        extractedData: ocrResult.extractedData
+      });
+
+      logger.info(`OCR processing completed for file: ${fileUpload.originalName}`);
+    } catch (error) {
+      if (!context.isFinalAttempt && !context.signal.aborted) {
+        const message = `Attempt ${context.attempt} failed, retrying`;
+        await uploadService.transition(fileUpload, 'queued', message)
+          .catch(transitionError => logger.error('Failed to record upload retry:', transitionError));
+        this.emit(fileUpload, { status: 'queued', message });
+      }
+      throw error;
+    }
+  }
+
+  private async markFailed(fileId: string, error: Error): Promise<void> {
+    const fileUpload = await uploadService.getUpload(fileId);
+    if (!fileUpload || fileUpload.status === 'cancelled') return;
+
+    await uploadService.transition(fileUpload, 'failed', 'Processing failed due to an error', {
+      ocrResult: {
+        success: false,
+        text: '',
+        confidence: 0,
+        errors: [error.message]
+      }
+    });
+
+    this.emit(fileUpload, {
+      status: 'failed',
+      message: 'Processing failed due to an error',
+      error: error.message
+    });
+
+    logger.error(`OCR processing failed for file: ${fileUpload.originalName}`, error);
+  }
+
+  private emit(fileUpload: FileUpload, update: Record<string, any>): void {
+    this.io?.emit('file_processing', { fileId: fileUpload.id, ...update });
+  }
+}
+
+export const ocrJobService = new OcrJobService();
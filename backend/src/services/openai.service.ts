@@ -1,7 +1,22 @@
 import OpenAI from 'openai';
 import { config } from '../config';
-import { Race, Horse, ChatMessage, AnalysisInsight } from '@railbird/shared';
+import {
+  Race,
+  Horse,
+  HorseClass,
+  HorseFigures,
+  ChatMessage,
+  AnalysisInsight,
+  getDistanceCategory,
+  getProgramNumber,
+  getRunners
+} from '@railbird/shared';
 import { logger } from '../utils/logger';
+import { valueService } from './value.service';
+import { paceAnalyzer } from './pace';
+import { figureService } from './figures.service';
+import { classService } from './class.service';
+import { formService } from './form.service';
 
 export class OpenAIService {
   private client: OpenAI;
@@ -58,7 +73,9 @@ export class OpenAIService {
       const response = completion.choices[0]?.message?.content;
       if (!response) throw new Error('No analysis generated');
 
-      return this.parseAnalysisResponse(response, race);
+      // Value calls come from the fair odds line rather than the model's read of the prices
+      const insights = this.parseAnalysisResponse(response, race).filter(insight => insight.type !== 'value');
+      return [...insights, ...valueService.analyzeRace(race).insights];
     } catch (error) {
       logger.error('Race analysis error:', error);
       throw new Error('Failed to generate race analysis');
@@ -85,29 +102,60 @@ Response style:
 - Keep responses focused but thorough`;
 
     if (race) {
+      const raceFigures = figureService.analyzeRace(race);
+      const figures = new Map(raceFigures.horses.map(horseFigures => [horseFigures.horseId, horseFigures]));
+      const raceClass = classService.analyzeRace(race);
+      const classes = new Map(raceClass.horses.map(horseClass => [horseClass.horseId, horseClass]));
+      const forms = new Map(formService.analyzeRace(race).horses.map(form => [form.horseId, form]));
+
       prompt += `\n\nCurrent Race Information:
 Race ${race.number} at ${race.track} - ${race.date}
-Distance: ${race.distance} on ${race.surface}
-Condition: ${race.condition}
+Distance: ${race.distance ? `${race.distance.text} (${getDistanceCategory(race.distance)})` : 'Unknown'} on ${race.surface}
+Race Type: ${race.raceType || 'Unknown'}
+Conditions: ${race.condition}
 Purse: $${race.purse.toLocaleString()}
+Class: ${raceClass.rating ?? 'Unknown'} (0-100)
+Par: ${raceFigures.par !== undefined ? `${raceFigures.par} Beyer (${raceFigures.parBasis === 'class' ? 'class par' : 'from the field'})` : 'Unknown'}
 
 Horses in this race:`;
 
-      race.horses.forEach(horse => {
-        prompt += `\n${horse.number}. ${horse.name} - ${horse.jockey}/${horse.trainer}`;
+      const fairLines = new Map(valueService.analyzeRace(race).horses.map(value => [value.horseId, value]));
+      // Recomputed so cards saved before the pace model, or edited since, still get styles
+      const pace = paceAnalyzer.analyzeRace(race);
+      const styles = new Map(pace.horses.map(horsePace => [horsePace.horseId, horsePace]));
+
+      getRunners(race).forEach(horse => {
+        prompt += `\n${getProgramNumber(horse)}. ${horse.name} - ${horse.jockey}/${horse.trainer}`;
         if (horse.morningLine) prompt += ` (ML: ${horse.morningLine})`;
-        if (horse.speedFigures.beyer) prompt += ` Beyer: ${horse.speedFigures.beyer}`;
+        prompt += this.describeChanges(horse);
+
+        const value = fairLines.get(horse.id);
+        if (value) {
+          prompt += ` Fair: ${value.fairLine}`;
+          if (value.verdict === 'overlay' || value.verdict === 'underlay') prompt += ` (${value.verdict})`;
+        }
+        const style = styles.get(horse.id);
+        if (style?.style) prompt += ` Style: ${style.style} (${style.earlySpeedPoints} pts)`;
+        prompt += this.describeFigures(figures.get(horse.id));
+        prompt += this.describeClass(classes.get(horse.id));
         
         // Add recent form
         if (horse.pastPerformances.length > 0) {
           const recent = horse.pastPerformances.slice(0, 3);
-          prompt += `\nRecent: ${recent.map(pp => `${pp.finish}/${pp.track}/${pp.distance}`).join(', ')}`;
+          prompt += `\nRecent: ${recent.map(pp => `${pp.finish}/${pp.track}/${pp.distance.text}`).join(', ')}`;
         }
+
+        const form = forms.get(horse.id);
+        if (form) prompt += `\nForm: ${form.cycle} - ${form.reason}`;
       });
 
-      if (race.paceScenario) {
-        prompt += `\n\nPace Scenario: ${race.paceScenario}`;
+      const scratched = race.horses.filter(horse => horse.scratched);
+      if (scratched.length > 0) {
+        prompt += `\n\nScratched (do not pick or discuss as runners): ${scratched.map(horse => `${getProgramNumber(horse)}. ${horse.name}`).join(', ')}`;
       }
+
+      prompt += `\n\nPace Scenario: ${pace.shape.scenario} - ${pace.shape.summary}`;
+      if (pace.shape.favors.length > 0) prompt += ` (favors ${pace.shape.favors.join(', ')})`;
     }
 
     if (context) {
@@ -117,6 +165,30 @@ Horses in this race:`;
     return prompt;
   }
 
+  // Figures are on the Beyer scale whatever the program printed
+  private describeFigures(figures?: HorseFigures): string {
+    if (!figures || figures.rating === undefined) return '';
+    if (figures.lastRace === undefined) return ` Fig: ${figures.rating}`;
+    return ` Fig: ${figures.rating} (last ${figures.lastRace}, best ${figures.bestOfThree}, avg ${figures.average})`;
+  }
+
+  private describeClass(horseClass?: HorseClass): string {
+    if (!horseClass || horseClass.rating === undefined) return '';
+    let text = ` Class: ${horseClass.rating}`;
+    if (horseClass.move && horseClass.move !== 'same') text += ` (${horseClass.move})`;
+    if (horseClass.signals.length > 0) text += ` [${horseClass.signals.map(signal => signal.description).join('; ')}]`;
+    return text;
+  }
+
+  private describeChanges(horse: Horse): string {
+    const changes: string[] = [];
+    if (horse.originalJockey) changes.push(`jockey change from ${horse.originalJockey}`);
+    if (horse.blinkersChange) changes.push(`blinkers ${horse.blinkersChange}`);
+    if (horse.firstTimeLasix) changes.push('first-time Lasix');
+    else if (horse.lasix) changes.push('Lasix');
+    return changes.length > 0 ? ` [${changes.join(', ')}]` : '';
+  }
+
   private buildAnalysisPrompt(race: Race): string {
     return `Analyze this horse race and provide structured insights. Return your analysis in this JSON format:
 
@@ -127,7 +199,7 @@ Horses in this race:`;
       "confidence": "high|medium|low",
       "summary": "Brief summary",
       "details": "Detailed explanation",
-      "affectedHorses": [horse numbers]
+      "affectedHorses": [program numbers as strings, e.g. "1A"]
     }
   ],
   "topPicks": {
@@ -139,8 +211,8 @@ Horses in this race:`;
   "keyFactors": ["Factor 1", "Factor 2", "Factor 3"]
 }
 
-Race Data:
-${JSON.stringify(race, null, 2)}
+Race Data (scratched horses removed):
+${JSON.stringify({ ...race, horses: getRunners(race) }, null, 2)}
 
 Provide expert handicapping analysis focusing on pace, class, form, and value.`;
   }
@@ -152,7 +224,15 @@ Provide expert handicapping analysis focusing on pace, class, form, and value.`;
       if (!jsonMatch) throw new Error('No JSON found in response');
 
       const analysis = JSON.parse(jsonMatch[0]);
-      return analysis.insights || [];
+      const runners = getRunners(race).map(h => getProgramNumber(h).toUpperCase());
+
+      // Drop any horse the model picked that has since been scratched
+      return (analysis.insights || []).map((insight: AnalysisInsight) => ({
+        ...insight,
+        affectedHorses: (insight.affectedHorses || [])
+          .map(programNumber => String(programNumber).toUpperCase())
+          .filter(programNumber => runners.includes(programNumber))
+      }));
     } catch (error) {
       logger.error('Failed to parse analysis response:', error);
       
@@ -162,7 +242,7 @@ Provide expert handicapping analysis focusing on pace, class, form, and value.`;
         confidence: 'medium',
         summary: 'AI Analysis Generated',
         details: response,
-        affectedHorses: race.horses.map(h => h.number)
+        affectedHorses: getRunners(race).map(h => getProgramNumber(h))
       }];
     }
   }
@@ -174,7 +254,7 @@ Provide expert handicapping analysis focusing on pace, class, form, and value.`;
 Question: ${question}
 
 Race: ${race.number} at ${race.track}
-${race.horses.map(h => `${h.number}. ${h.name} - ${h.jockey}`).join('\n')}
+${getRunners(race).map(h => `${getProgramNumber(h)}. ${h.name} - ${h.jockey}`).join('\n')}
 
 Give a direct, knowledgeable answer in 2-3 sentences.`;
 
@@ -0,0 +1,35 @@
+import { Race, RacePaceAnalysis, getRunners } from '@railbird/shared';
+import { classifyHorse } from './style';
+import { projectRaceShape } from './shape';
+
+export class PaceAnalyzer {
+  // Scratched runners and also-eligibles that have not drawn in are left out
+  analyzeRace(race: Race): RacePaceAnalysis {
+    const horses = getRunners(race).map(horse => classifyHorse(horse));
+
+    return {
+      raceId: race.id,
+      horses,
+      shape: projectRaceShape(horses)
+    };
+  }
+
+  // Stores the styles and projected shape on the race; run again after scratches
+  applyToRace(race: Race): RacePaceAnalysis {
+    const analysis = this.analyzeRace(race);
+    const byHorse = new Map(analysis.horses.map(pace => [pace.horseId, pace]));
+
+    race.horses.forEach(horse => {
+      const pace = byHorse.get(horse.id);
+      if (!pace) return;
+      horse.runningStyle = pace.style;
+      horse.earlySpeedPoints = pace.earlySpeedPoints;
+    });
+
+    race.paceScenario = analysis.shape.scenario;
+    race.paceShape = analysis.shape;
+    return analysis;
+  }
+}
+
+export const paceAnalyzer = new PaceAnalyzer();
@@ -0,0 +1,3 @@
+export { PACE_RACES, getFirstCall, classifyRun, getEarlySpeedPoints, classifyHorse } from './style';
+export { projectRaceShape } from './shape';
+export { PaceAnalyzer, paceAnalyzer } from './analyzer';
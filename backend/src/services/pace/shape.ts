@@ -0,0 +1,54 @@
+import { HorsePace, PaceScenario, RaceShape, RunningStyle } from '@railbird/shared';
+
+// Two need-the-lead types with this many points between them will duel
+const DUEL_POINTS = 10;
+// Pressers with fewer points rarely go with a lone leader
+const PRESSER_POINTS = 4;
+
+const FAVORED_STYLES: Record<PaceScenario, RunningStyle[]> = {
+  fast: ['P', 'S'],
+  moderate: ['E/P', 'P'],
+  slow: ['E', 'E/P']
+};
+
+const list = (programNumbers: string[]): string => programNumbers.map(number => `#${number}`).join(', ');
+
+// Projects how the early pace will unfold from the runners' styles and early speed points
+export const projectRaceShape = (horses: HorsePace[]): RaceShape => {
+  const byPoints = [...horses].sort((a, b) => b.earlySpeedPoints - a.earlySpeedPoints);
+  const early = byPoints.filter(horse => horse.style === 'E');
+  const pressers = byPoints.filter(horse => horse.style === 'E/P' && horse.earlySpeedPoints >= PRESSER_POINTS);
+  const speed = [...early, ...pressers].map(horse => horse.programNumber);
+  const topPoints = early.slice(0, 2).reduce((sum, horse) => sum + horse.earlySpeedPoints, 0);
+
+  let scenario: PaceScenario;
+  let loneSpeed: string | undefined;
+  let summary: string;
+
+  if (early.length >= 3 || (early.length === 2 && topPoints >= DUEL_POINTS)) {
+    scenario = 'fast';
+    summary = `Contested pace: ${list(early.map(horse => horse.programNumber))} all want the lead, setting it up for closers`;
+  } else if (early.length === 1 && pressers.length === 0) {
+    scenario = 'slow';
+    loneSpeed = early[0].programNumber;
+    summary = `Lone speed: #${loneSpeed} should make an uncontested lead`;
+  } else if (early.length === 0 && pressers.length <= 1) {
+    scenario = 'slow';
+    summary = pressers.length === 1
+      ? `No true speed; #${pressers[0].programNumber} may inherit the lead at a soft pace`
+      : 'No early speed in the field; expect a soft, tactical pace';
+  } else {
+    scenario = 'moderate';
+    summary = speed.length > 0
+      ? `Honest pace led by ${list(speed)}, with no sign of a speed duel`
+      : 'Honest pace expected';
+  }
+
+  return {
+    scenario,
+    speed,
+    ...(loneSpeed && { loneSpeed }),
+    favors: FAVORED_STYLES[scenario],
+    summary
+  };
+};
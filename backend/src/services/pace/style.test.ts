@@ -0,0 +1,63 @@
+import { Distance, PastPerformance, RunningCall } from '@railbird/shared';
+import { classifyRun, getEarlySpeedPoints, getFirstCall } from './style';
+
+const SPRINT: Distance = { value: 6, unit: 'furlongs', furlongs: 6, text: '6 Furlongs' };
+
+const runningLine = (calls: RunningCall[]): PastPerformance => ({
+  date: '2024-02-15',
+  track: 'SA',
+  distance: SPRINT,
+  surface: 'dirt',
+  condition: 'fst',
+  finish: calls[calls.length - 1].position,
+  beaten: 0,
+  calls,
+  time: '',
+  classLevel: 'Clm 25000',
+  purse: 0
+} as PastPerformance);
+
+describe('classifyRun', () => {
+  it.each<[RunningCall, string]>([
+    [{ position: 1, lengths: 2 }, 'E'],
+    [{ position: 4, lengths: 0.5 }, 'E'],
+    [{ position: 5, lengths: 2.5 }, 'E/P'],
+    [{ position: 6, lengths: 5 }, 'P'],
+    [{ position: 9, lengths: 8 }, 'S'],
+    // Without a margin only the position counts
+    [{ position: 1 }, 'E'],
+    [{ position: 3 }, 'E/P'],
+    [{ position: 5 }, 'P'],
+    [{ position: 9 }, 'S']
+  ])('classifies %j as %s', (call, style) => {
+    expect(classifyRun(call)).toBe(style);
+  });
+});
+
+describe('getFirstCall', () => {
+  it('needs a call before the finish', () => {
+    expect(getFirstCall(runningLine([{ position: 2, lengths: 1 }]))).toBeNull();
+  });
+
+  it('puts the leader zero lengths behind', () => {
+    expect(getFirstCall(runningLine([{ position: 1, lengths: 2 }, { position: 1, lengths: 3 }])))
+      .toEqual({ position: 1, lengths: 0 });
+  });
+
+  it('leaves lengths out when no margin was read', () => {
+    expect(getFirstCall(runningLine([{ position: 9 }, { position: 8 }]))).toEqual({ position: 9 });
+  });
+});
+
+describe('getEarlySpeedPoints', () => {
+  it.each<[RunningCall[], number]>([
+    [[{ position: 1, lengths: 1 }, { position: 1 }], 2],
+    [[{ position: 3, lengths: 2 }, { position: 2 }], 1],
+    [[{ position: 6, lengths: 1.5 }, { position: 4 }], 1],
+    [[{ position: 6, lengths: 4 }, { position: 4 }], 0],
+    // A back-marker with a missing margin is not in contention
+    [[{ position: 9 }, { position: 8 }], 0]
+  ])('scores calls %j as %i', (calls, points) => {
+    expect(getEarlySpeedPoints([runningLine(calls)])).toBe(points);
+  });
+});
@@ -0,0 +1,71 @@
+import { Horse, HorsePace, PastPerformance, RunningCall, RunningStyle, getDistanceCategory, getProgramNumber } from '@railbird/shared';
+
+// Only recent running lines describe how a horse runs now
+export const PACE_RACES = 3;
+
+const STYLE_SCORES: Record<RunningStyle, number> = { 'E': 3, 'E/P': 2, 'P': 1, 'S': 0 };
+
+// Lengths off the leader at the first call that still count as on the pace;
+// routes string out less early, so the margin is wider
+const CONTENTION_LENGTHS = { sprint: 2, route: 3 };
+
+// The first call is the first position after the start; a line with a single
+// call only has the finish
+export const getFirstCall = (pp: PastPerformance): RunningCall | null => {
+  if (!pp.calls || pp.calls.length < 2) return null;
+  const call = pp.calls[0];
+  // The leader's margin is its lead, so it is zero lengths behind
+  return { position: call.position, lengths: call.position === 1 ? 0 : call.lengths };
+};
+
+// Calls without a margin are judged on position alone
+export const classifyRun = (call: RunningCall): RunningStyle => {
+  const { position, lengths } = call;
+  if (position === 1 || (lengths !== undefined && lengths <= 1)) return 'E';
+  if (position <= 3 || (lengths !== undefined && lengths <= 3)) return 'E/P';
+  if (lengths !== undefined ? lengths <= 6 : position <= 6) return 'P';
+  return 'S';
+};
+
+// Per race: a point for being in contention at the first call (top three, or
+// within two lengths in a sprint and three in a route) and another for leading
+export const getEarlySpeedPoints = (pastPerformances: PastPerformance[]): number => {
+  return pastPerformances.reduce((points, pp) => {
+    const call = getFirstCall(pp);
+    if (!call) return points;
+
+    const limit = CONTENTION_LENGTHS[pp.distance ? getDistanceCategory(pp.distance) : 'sprint'];
+    const inContention = call.position <= 3 || (call.lengths !== undefined && call.lengths <= limit);
+    return points + (inContention ? 1 : 0) + (call.position === 1 ? 1 : 0);
+  }, 0);
+};
+
+const styleFromScore = (score: number): RunningStyle => {
+  if (score >= 2.5) return 'E';
+  if (score >= 1.5) return 'E/P';
+  if (score >= 0.75) return 'P';
+  return 'S';
+};
+
+const average = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+export const classifyHorse = (horse: Horse): HorsePace => {
+  const races = horse.pastPerformances.filter(pp => getFirstCall(pp) !== null).slice(0, PACE_RACES);
+  const base = { horseId: horse.id, programNumber: getProgramNumber(horse) };
+
+  if (races.length === 0) return { ...base, earlySpeedPoints: 0, racesUsed: 0 };
+
+  const calls = races.map(pp => getFirstCall(pp)!);
+  const lengths = calls
+    .map(call => call.lengths)
+    .filter((value): value is number => value !== undefined);
+
+  return {
+    ...base,
+    style: styleFromScore(average(calls.map(call => STYLE_SCORES[classifyRun(call)]))),
+    earlySpeedPoints: getEarlySpeedPoints(races),
+    firstCallPosition: Math.round(average(calls.map(call => call.position)) * 10) / 10,
+    ...(lengths.length > 0 && { firstCallLengths: Math.round(average(lengths) * 10) / 10 }),
+    racesUsed: races.length
+  };
+};
@@ -0,0 +1,51 @@
+import { parseClassLevel, parseRaceConditions } from './conditions.parser';
+
+describe('parseRaceConditions', () => {
+  it('reads a maiden claiming race', () => {
+    const conditions = parseRaceConditions(
+      'Purse $40,000. FOR MAIDENS, THREE YEAR OLDS AND UPWARD. Three Year Olds, 120 lbs.; Older, 126 lbs. Claiming Price $30,000'
+    );
+
+    expect(conditions).toMatchObject({
+      raceClass: 'maiden-claiming',
+      claimingPrice: 30000,
+      ages: { min: 3 },
+      purse: 40000,
+      weights: [{ label: 'Three Year Olds', pounds: 120 }, { label: 'Older', pounds: 126 }]
+    });
+  });
+
+  it('reads "non-winners of 2 races" as an allowance', () => {
+    const conditions = parseRaceConditions(
+      'Purse $80,000. For Fillies And Mares Three Years Old And Upward Which Have Not Won 2 races Other Than Maiden, Claiming Or Starter.'
+    );
+
+    expect(conditions?.raceClass).toBe('allowance');
+    expect(conditions?.sex).toBe('fillies-and-mares');
+    expect(conditions?.claimingPrice).toBeUndefined();
+  });
+
+  it('reads a graded stakes', () => {
+    const conditions = parseRaceConditions('The Travers Stakes (G1). Purse $1,250,000. For Three Year Olds.');
+
+    expect(conditions).toMatchObject({ raceClass: 'stakes', grade: 1, stakesName: 'Travers Stakes', ages: { min: 3, max: 3 } });
+  });
+
+  it('returns null for text without a race class', () => {
+    expect(parseRaceConditions('Post time 1:05 PM')).toBeNull();
+  });
+});
+
+describe('parseClassLevel', () => {
+  it.each<[string, string, number | undefined]>([
+    ['MdSpWt', 'maiden-special-weight', undefined],
+    ['Md 25000', 'maiden-claiming', 25000],
+    ['Clm 25000', 'claiming', 25000],
+    ['OC 62k/N1X', 'optional-claiming', 62000]
+  ])('reads %s', (classLevel, raceClass, claimingPrice) => {
+    const conditions = parseClassLevel(classLevel);
+
+    expect(conditions?.raceClass).toBe(raceClass);
+    expect(conditions?.claimingPrice).toBe(claimingPrice);
+  });
+});
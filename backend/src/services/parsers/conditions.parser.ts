@@ -0,0 +1,200 @@
+import { RaceClass, RaceConditions, SexRestriction, WeightAllowance, WeightAssignment } from '@railbird/shared';
+
+// Parses the conditions paragraph under a race header, e.g.
+//   Purse $40,000. FOR MAIDENS, THREE YEAR OLDS AND UPWARD. Three Year Olds, 120 lbs.;
+//   Older, 126 lbs. Claiming Price $30,000, for each $2,500 to $25,000 1 lb.
+// Programs print conditions in capitals or title case, so every pattern ignores case.
+
+const AGE_WORDS: Record<string, string> = { two: '2', three: '3', four: '4', five: '5' };
+
+const PURSE_PATTERN = /\bPurse\b[:\s]*\$\s?([\d,]+)|\$\s?([\d,]+)\s+(?:Added|Guaranteed)\b/i;
+const CLAIMING_PRICE_PATTERN = /Claiming\s+Price(?:\s+of)?[:\s]*\$\s?([\d,]+)|\$\s?([\d,]+)\s+Claiming\b|\b(?:Claiming|Clm|MdClm|Md\s?Cl)\s*\$?\s?(\d[\d,]{3,})\b/i;
+const GRADE_PATTERN = /\bGrade\s*(III|II|I|[123])\b|\(G([123])\)|\bG([123])\b/i;
+const STAKES_NAME_PATTERN = /\b(?:The\s+)?((?:[A-Z][\w'.&-]*\s+){1,5}(?:Stakes|Handicap|Derby|Oaks|Invitational))\b/;
+const AGE_RANGE_PATTERN = /\b(\d)\s*(?:and|&|-)\s*(\d)\s*[- ]?years?[- ]olds?\b/i;
+const AGE_PATTERN = /\b(\d)\s*[- ]?(?:years?[- ]olds?|yos?|y\/o)\b(?:,?\s*(and\s+upward|and\s+up|&\s*up|and\s+older))?|\b(\d)\s*(?:&|and)\s*up\b/i;
+const WEIGHT_PATTERN = /([A-Za-z0-9][A-Za-z0-9 '-]*?),?\s+(\d{3})\s*lbs?\b/gi;
+const ALLOWANCE_PATTERN = /([^.;]*?),?\s*(?:allowed|allowance)\s+(\d{1,2})\s*lbs?\b/gi;
+
+const parseAmount = (value: string | undefined): number | undefined => {
+  if (!value) return undefined;
+  const amount = parseInt(value.replace(/,/g, ''));
+  return isNaN(amount) ? undefined : amount;
+};
+
+const normalizeAgeWords = (text: string): string =>
+  text.replace(/\b(two|three|four|five)\b/gi, word => AGE_WORDS[word.toLowerCase()]);
+
+export const parsePurse = (text: string): number | null => {
+  const match = text.match(PURSE_PATTERN);
+  return parseAmount(match?.[1] || match?.[2]) ?? null;
+};
+
+const parseRaceClass = (text: string, claimingPrice?: number, grade?: number): RaceClass | null => {
+  // Allowance conditions mention "other than maiden, claiming", so only maiden races
+  // written for maidens count, and a claiming price beats "non-winners of" wording
+  if (/\bfor\s+maidens\b|\bmaiden\s+(?:special|claiming|allowance|optional)|\bmsw\b|\bmdn\b|\bmd\s?(?:sp\s?wt|cl)/i.test(text)) {
+    return claimingPrice ? 'maiden-claiming' : 'maiden-special-weight';
+  }
+  if (/\bstarter\s+(?:allowance|optional|handicap)/i.test(text)) return 'starter-allowance';
+  if (/optional\s+claiming|\baoc\b|\boc\s?\d/i.test(text)) return 'optional-claiming';
+  if (grade || /\bstakes?\b|\bhandicap\b|\bstk\b/i.test(text)) return 'stakes';
+  if (claimingPrice) return 'claiming';
+  if (/\ballowance\b|\balw\b|non-?winners|\b(?:never|not)\s+won\b/i.test(text)) return 'allowance';
+  if (/\bclaiming\b|\bclm\b/i.test(text)) return 'claiming';
+  return null;
+};
+
+const parseGrade = (text: string): 1 | 2 | 3 | undefined => {
+  const match = text.match(GRADE_PATTERN);
+  if (!match) return undefined;
+  const value = (match[1] || match[2] || match[3]).toUpperCase();
+  const grade = ({ I: 1, II: 2, III: 3 } as Record<string, number>)[value] || parseInt(value);
+  return grade as 1 | 2 | 3;
+};
+
+const parseAges = (text: string): RaceConditions['ages'] => {
+  const normalized = normalizeAgeWords(text);
+
+  const range = normalized.match(AGE_RANGE_PATTERN);
+  if (range) return { min: parseInt(range[1]), max: parseInt(range[2]) };
+
+  const match = normalized.match(AGE_PATTERN);
+  if (!match) return undefined;
+  if (match[3]) return { min: parseInt(match[3]) };
+
+  const age = parseInt(match[1]);
+  return match[2] ? { min: age } : { min: age, max: age };
+};
+
+const parseSex = (text: string): SexRestriction | undefined => {
+  if (/fillies\s+(?:and|&)\s+mares|\bf\s?&\s?m\b/i.test(text)) return 'fillies-and-mares';
+  if (/colts\s+(?:and|&)\s+geldings/i.test(text)) return 'colts-and-geldings';
+  if (/\bfillies\b/i.test(text)) return 'fillies';
+  if (/\bmares\b/i.test(text)) return 'mares';
+  return undefined;
+};
+
+const parseWeights = (text: string): WeightAssignment[] => {
+  const weights: WeightAssignment[] = [];
+  for (const match of text.matchAll(WEIGHT_PATTERN)) {
+    const pounds = parseInt(match[2]);
+    if (pounds < 100 || pounds > 135) continue;
+    // "Three Year Olds, 120 lbs.; Older, 126 lbs." -> keep the words nearest the weight
+    const label = match[1].trim().split(/[.;:]\s*/).pop()!.trim();
+    weights.push({ label: label || 'Weight', pounds });
+  }
+  return weights;
+};
+
+const parseAllowances = (text: string): WeightAllowance[] => {
+  const allowances: WeightAllowance[] = [];
+  for (const match of text.matchAll(ALLOWANCE_PATTERN)) {
+    const condition = match[1].trim();
+    if (condition) allowances.push({ condition, pounds: parseInt(match[2]) });
+  }
+  return allowances;
+};
+
+// Returns null when the text names no recognizable race class
+export const parseRaceConditions = (text: string): RaceConditions | null => {
+  const conditionsText = text.replace(/\s+/g, ' ').trim();
+  if (!conditionsText) return null;
+
+  const claimingMatch = conditionsText.match(CLAIMING_PRICE_PATTERN);
+  const claimingPrice = parseAmount(claimingMatch?.[1] || claimingMatch?.[2] || claimingMatch?.[3]);
+  const grade = parseGrade(conditionsText);
+
+  const raceClass = parseRaceClass(conditionsText, claimingPrice, grade);
+  if (!raceClass) return null;
+
+  const conditions: RaceConditions = {
+    raceClass,
+    weights: parseWeights(conditionsText),
+    allowances: parseAllowances(conditionsText),
+    text: conditionsText
+  };
+
+  if (grade) conditions.grade = grade;
+  if (raceClass === 'stakes') {
+    const name = conditionsText.match(STAKES_NAME_PATTERN)?.[1];
+    if (name) conditions.stakesName = name.trim();
+  }
+  if (claimingPrice && raceClass !== 'maiden-special-weight') conditions.claimingPrice = claimingPrice;
+
+  const ages = parseAges(conditionsText);
+  if (ages) conditions.ages = ages;
+
+  const sex = parseSex(conditionsText);
+  if (sex) conditions.sex = sex;
+
+  const purse = parsePurse(conditionsText);
+  if (purse) conditions.purse = purse;
+
+  return conditions;
+};
+
+// Running lines abbreviate the class to one token: "MdSpWt", "Md 25000", "MdClm 25k",
+// "Clm 25000", "OC 62k/N1X", "Alw 50000N1X", "Str 16000", "Hcp 75k", "Stk", "Travers G1".
+// The amount is the claiming price for claiming and starter races and the purse otherwise.
+const CLASS_AMOUNT_PATTERN = /(\d{2,})([kK])?/;
+
+export const parseClassLevel = (classLevel: string): RaceConditions | null => {
+  const text = classLevel.trim();
+  if (!text) return null;
+
+  const amountMatch = text.match(CLASS_AMOUNT_PATTERN);
+  const amount = amountMatch ? parseInt(amountMatch[1]) * (amountMatch[2] ? 1000 : 1) : undefined;
+  const grade = parseGrade(text);
+
+  let raceClass: RaceClass;
+  let pricedByClaim = true;
+  if (/^(?:MdSpWt|MSW|Md\s?Sp\s?Wt)/i.test(text)) {
+    raceClass = 'maiden-special-weight';
+    pricedByClaim = false;
+  } else if (/^Md/i.test(text)) {
+    raceClass = 'maiden-claiming';
+  } else if (/^Clm/i.test(text)) {
+    raceClass = 'claiming';
+  } else if (/^OC/i.test(text)) {
+    raceClass = 'optional-claiming';
+  } else if (/^Str/i.test(text)) {
+    raceClass = 'starter-allowance';
+  } else if (/^Alw/i.test(text)) {
+    raceClass = 'allowance';
+    pricedByClaim = false;
+  } else {
+    raceClass = 'stakes';
+    pricedByClaim = false;
+  }
+
+  return {
+    raceClass,
+    ...(grade && { grade }),
+    ...(amount && (pricedByClaim ? { claimingPrice: amount } : { purse: amount })),
+    weights: [],
+    allowances: [],
+    text
+  };
+};
+
+const RACE_CLASS_LABELS: Record<RaceClass, string> = {
+  'maiden-special-weight': 'Maiden Special Weight',
+  'maiden-claiming': 'Maiden Claiming',
+  'claiming': 'Claiming',
+  'starter-allowance': 'Starter Allowance',
+  'allowance': 'Allowance',
+  'optional-claiming': 'Allowance Optional Claiming',
+  'stakes': 'Stakes'
+};
+
+// Display label for Race.raceType, e.g. "Claiming $25,000" or "Travers Stakes (G1)"
+export const formatRaceType = (conditions: RaceConditions): string => {
+  if (conditions.raceClass === 'stakes') {
+    const name = conditions.stakesName || RACE_CLASS_LABELS.stakes;
+    return conditions.grade ? `${name} (G${conditions.grade})` : name;
+  }
+
+  const label = RACE_CLASS_LABELS[conditions.raceClass];
+  return conditions.claimingPrice ? `${label} $${conditions.claimingPrice.toLocaleString('en-US')}` : label;
+};
@@ -0,0 +1,34 @@
+import { ExtractionConfidence, RaceCard } from '@railbird/shared';
+
+// Row confidence is the mean of the per-field scores
+export const scoreExtraction = (sourceText: string, fields: Record<string, number>): ExtractionConfidence => {
+  const scores = Object.values(fields);
+  const confidence = scores.length > 0
+    ? scores.reduce((sum, score) => sum + score, 0) / scores.length
+    : 0;
+
+  return {
+    confidence: Math.round(confidence * 100) / 100,
+    sourceText,
+    fields
+  };
+};
+
+// Folds the OCR engine's confidence into every row the parser scored
+export const applyDocumentConfidence = (data: Partial<RaceCard>, documentConfidence: number): Partial<RaceCard> => {
+  const scale = (extraction?: ExtractionConfidence) => {
+    if (extraction) {
+      extraction.confidence = Math.round(extraction.confidence * documentConfidence * 100) / 100;
+    }
+  };
+
+  (data.races || []).forEach(race => {
+    scale(race.extraction);
+    race.horses.forEach(horse => {
+      scale(horse.extraction);
+      horse.pastPerformances.forEach(pp => scale(pp.extraction));
+    });
+  });
+
+  return data;
+};
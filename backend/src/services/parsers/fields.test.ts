@@ -0,0 +1,23 @@
+import { parseRaceHeader, RACE_HEADER_PATTERN } from './fields';
+
+describe('parseRaceHeader', () => {
+  it.each<[string, number | null]>([
+    ['RACE 3', 3],
+    ['Race 10 (continued)', 10],
+    ['  3rd RACE', 3],
+    ['1st Race Saratoga', 1],
+    // Condition text that mentions races is not a header
+    ['Non-winners of 2 races other than maiden, claiming or starter', null],
+    ['which have never won 2 races', null],
+    ['2 races since June 1 allowed 3 lbs.', null],
+    ['RACES 3 AND 4 ARE COUPLED', null],
+    ['Trifecta on every race 2 through 9', null]
+  ])('reads "%s" as %p', (line, raceNumber) => {
+    expect(parseRaceHeader(line)).toBe(raceNumber);
+  });
+
+  it('finds a header on any line of a document', () => {
+    expect(RACE_HEADER_PATTERN.test('SARATOGA\nThursday, August 15, 2024\nRACE 1')).toBe(true);
+    expect(RACE_HEADER_PATTERN.test('For non-winners of 2 races')).toBe(false);
+  });
+});
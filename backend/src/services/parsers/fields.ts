@@ -0,0 +1,80 @@
+// Field-level readers shared by the parsers and the OCR consensus step
+
+export interface HorseRowFields {
+  number: string;
+  name: string;
+  jockey?: string;
+  weight?: string;
+  odds?: string;
+  scratched?: boolean;
+  alsoEligible?: boolean;
+}
+
+// Horse entries: "1. HORSE NAME (Jockey) 5-1" or "1A. HORSE NAME (Jockey) 122 5-1"
+const HORSE_ROW_PATTERN = /^(\d{1,2}[A-Z]?)\.?\s+([A-Z\s']+?)\s*(?:\(([^)]+)\))?\s*(\d{3})?\s*(?:(\d+-\d+|\d+\/\d+))?\s*$/i;
+const SCRATCH_MARKER = /\s+(?:SCR|SCRATCHED)\.?\s*$/i;
+const ALSO_ELIGIBLE_MARKER = /\s+(?:AE|A\.E\.)\s*$/;
+const ODDS_PATTERN = /^(\d+[-\/]\d+|even)$/i;
+// Coupled entries carry a letter after the number: "1", "1A", "1X"
+const PROGRAM_NUMBER_PATTERN = /^\d{1,2}[A-Z]?$/i;
+
+// Race headers open their line: "RACE 3" or "3rd RACE". The ordinal is required and
+// the plural is rejected, so conditions such as "non-winners of 2 races" are not headers.
+export const RACE_HEADER_PATTERN = /^\s*(?:RACE\s+(\d+)\b|(\d+)(?:st|nd|rd|th)\s+RACE\b)/im;
+
+export const parseRaceHeader = (line: string): number | null => {
+  const match = line.match(RACE_HEADER_PATTERN);
+  return match ? parseInt(match[1] || match[2]) : null;
+};
+
+export const parseHorseRow = (line: string): HorseRowFields | null => {
+  // "6 Furlongs Dirt" has the same shape as a horse row
+  if (/^\d{1,2}\s+(?:furlongs?|miles?|yards?)\b/i.test(line)) return null;
+
+  // Scratched and also-eligible runners are marked after the odds, e.g. "... 5-1 SCR"
+  const scratched = SCRATCH_MARKER.test(line);
+  const alsoEligible = ALSO_ELIGIBLE_MARKER.test(line);
+  const row = line.replace(SCRATCH_MARKER, '').replace(ALSO_ELIGIBLE_MARKER, '').trim();
+
+  const match = row.match(HORSE_ROW_PATTERN);
+  if (!match) return null;
+
+  const [, number, name, jockey, weight, odds] = match;
+
+  return {
+    number: number.toUpperCase(),
+    name: name.trim(),
+    jockey: jockey?.trim(),
+    weight,
+    odds: odds?.trim(),
+    ...(scratched && { scratched }),
+    ...(alsoEligible && { alsoEligible })
+  };
+};
+
+export const formatHorseRow = (fields: HorseRowFields): string => {
+  return [
+    `${fields.number}.`,
+    fields.name,
+    fields.jockey ? `(${fields.jockey})` : '',
+    fields.weight || '',
+    fields.odds || '',
+    fields.scratched ? 'SCR' : '',
+    fields.alsoEligible ? 'AE' : ''
+  ].filter(part => part.length > 0).join(' ');
+};
+
+// Registered names are at most 18 characters; longer reads usually swallowed another column
+export const isValidHorseName = (name: string): boolean => {
+  return name.length >= 2 && name.length <= 18 && /^[A-Z][A-Z' ]*$/i.test(name);
+};
+
+export const isValidOdds = (odds: string): boolean => ODDS_PATTERN.test(odds.trim());
+
+export const isValidProgramNumber = (programNumber: string): boolean =>
+  PROGRAM_NUMBER_PATTERN.test(programNumber.trim());
+
+export const isValidWeight = (weight: string): boolean => {
+  const value = parseInt(weight);
+  return value >= 100 && value <= 135;
+};
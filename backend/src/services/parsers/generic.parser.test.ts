@@ -0,0 +1,28 @@
+import { GenericProgramParser } from './generic.parser';
+
+const parser = new GenericProgramParser();
+
+describe('GenericProgramParser conditions', () => {
+  it('keeps allowance conditions that wrap onto a line starting with "2 races"', () => {
+    const card = parser.parse([
+      'SARATOGA',
+      'August 15, 2024',
+      'RACE 7',
+      'Purse $105,000. For Three Year Olds and Upward Which Have Never Won',
+      '2 races Other Than Maiden, Claiming or Starter. Three Year Olds, 120 lbs.; Older, 124 lbs.',
+      '1. FAST ONE (J. Smith) 120 5-2',
+      '2. SLOW TWO (J. Doe) 124 3-1'
+    ].join('\n'));
+
+    expect(card.races).toHaveLength(1);
+    const race = card.races![0];
+    expect(race.number).toBe(7);
+    expect(race.horses).toHaveLength(2);
+    expect(race.conditions?.raceClass).toBe('allowance');
+    expect(race.condition).toContain('2 races Other Than Maiden');
+    expect(race.conditions?.weights).toEqual([
+      { label: 'Three Year Olds', pounds: 120 },
+      { label: 'Older', pounds: 124 }
+    ]);
+  });
+});
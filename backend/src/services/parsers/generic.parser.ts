@@ -0,0 +1,366 @@
+import {
+  RaceCard,
+  Race,
+  Horse,
+  HorseSex,
+  Track,
+  Distance,
+  Surface,
+  RaceConditions,
+  SpeedFigureScale,
+  assignRaceIds,
+  getProgramNumber,
+  parseDistance
+} from '@railbird/shared';
+import { logger } from '../../utils/logger';
+import { RaceProgramParser } from './types';
+import { parsePastPerformanceLine } from './pastPerformance.parser';
+import { parseWorkoutLine } from './workout.parser';
+import { formatRaceType, parsePurse, parseRaceConditions } from './conditions.parser';
+import { scoreExtraction } from './confidence';
+import { trackRegistry } from '../tracks';
+import { isValidHorseName, parseHorseRow, parseRaceHeader, RACE_HEADER_PATTERN } from './fields';
+
+// Conditions paragraphs rarely wrap past this many lines
+const MAX_CONDITION_LINES = 8;
+
+const ALSO_ELIGIBLE_HEADER = /^also[- ]eligibles?\b/i;
+
+const PEDIGREE_PATTERN = /^(?:Dk\s?B\/?\s?Br|B|Br|Ch|Gr\/?\s?Ro|Gr|Ro|Blk|Bl)\.?\s+([cfghmr])\.\s+(\d{1,2})\b/i;
+
+const HORSE_SEXES: Record<string, HorseSex> = {
+  c: 'colt', f: 'filly', g: 'gelding', h: 'horse', m: 'mare', r: 'ridgling'
+};
+
+// Labelled headline figures: "Beyer: 95", "Bris Speed 98", "Timeform US Fig 112", "Equibase Speed Figure 90"
+const HEADLINE_FIGURE_PATTERN = /^(Beyer|Bris(?:net)?|Timeform(?:\s+US)?|Equibase)(?:\s+Speed)?(?:\s+(?:Figure|Fig|Rating))?[:.]?\s*(\d{2,3})$/i;
+
+const HEADLINE_FIGURE_KEYS: Record<string, keyof Horse['speedFigures']> = {
+  beyer: 'beyer', bris: 'brisnet', brisnet: 'brisnet', timeform: 'timeform', equibase: 'equibase'
+};
+
+// Layout-agnostic parser used when no publisher-specific parser recognizes the document
+export class GenericProgramParser implements RaceProgramParser {
+  readonly name: string = 'generic';
+  // Scale of the figures in the program's running lines
+  protected readonly figureScale: SpeedFigureScale = 'beyer';
+
+  detect(text: string): number {
+    // Any document with a race header is at least parseable generically
+    return RACE_HEADER_PATTERN.test(text) ? 0.1 : 0.01;
+  }
+
+  parse(text: string): Partial<RaceCard> {
+    try {
+      const track = this.extractTrack(text);
+      const printedDate = this.extractDate(text);
+      const date = printedDate || new Date().toISOString().split('T')[0];
+      const races = this.extractRaces(text, date);
+
+      // Races inherit the card's track and date, which their ids are derived from
+      races.forEach(race => {
+        race.track = track?.name || race.track;
+        race.trackCode = track?.code;
+        race.date = date;
+        assignRaceIds(race);
+      });
+
+      return {
+        track: track?.name || 'Unknown Track',
+        trackCode: track?.code,
+        date,
+        ...(!printedDate && { dateAssumed: true }),
+        races
+      };
+    } catch (error) {
+      logger.error(`Race data parsing error (${this.name} parser):`, error);
+      return {};
+    }
+  }
+
+  // The card date places workouts printed without a year
+  protected extractRaces(text: string, date: string): Race[] {
+    const races: Race[] = [];
+    const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+    
+    let currentRace: Partial<Race> | null = null;
+    let currentHorses: Horse[] = [];
+    // Horses listed under an "Also Eligible" heading only run if they draw in
+    let inAlsoEligibles = false;
+    
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      // Look for race headers (e.g., "RACE 1", "1st RACE", etc.)
+      const raceNumber = parseRaceHeader(line);
+      
+      if (raceNumber !== null) {
+        // Save previous race if exists
+        if (currentRace && currentHorses.length > 0) {
+          this.addRace(races, {
+            ...currentRace,
+            horses: currentHorses
+          } as Race);
+        }
+        
+        // Start new race
+        currentRace = {
+          number: raceNumber,
+          track: 'Unknown',
+          date: new Date().toISOString().split('T')[0],
+          horses: []
+        };
+        currentHorses = [];
+        inAlsoEligibles = false;
+        
+        // Race conditions run from the header down to the first horse
+        const headerLines = [line];
+        for (let j = i + 1; j < Math.min(i + MAX_CONDITION_LINES + 1, lines.length); j++) {
+          const conditionLine = lines[j];
+          if (parseRaceHeader(conditionLine) !== null || parseHorseRow(conditionLine)) break;
+
+          const distance = this.extractDistance(conditionLine);
+          const surface = this.extractSurface(conditionLine);
+
+          if (distance && !currentRace.distance) currentRace.distance = distance;
+          if (surface && !currentRace.surface) currentRace.surface = surface;
+          headerLines.push(conditionLine);
+        }
+
+        const conditionsText = headerLines.slice(1).join(' ');
+        const conditions = this.extractConditions(conditionsText);
+        if (conditions) {
+          currentRace.conditions = conditions;
+          currentRace.condition = conditions.text;
+          currentRace.raceType = formatRaceType(conditions);
+        }
+
+        const purse = conditions?.purse || this.extractPurse(conditionsText);
+        if (purse) currentRace.purse = purse;
+
+        currentRace.extraction = scoreExtraction(headerLines.join('\n'), {
+          number: 1,
+          distance: currentRace.distance ? 1 : 0,
+          surface: currentRace.surface ? 1 : 0,
+          purse: currentRace.purse ? 1 : 0
+        });
+      } else if (currentRace) {
+        if (ALSO_ELIGIBLE_HEADER.test(line)) {
+          inAlsoEligibles = true;
+          continue;
+        }
+
+        const currentHorse = currentHorses[currentHorses.length - 1];
+
+        // Running lines and detail lines belong to the most recent horse
+        if (currentHorse) {
+          const pastPerformance = parsePastPerformanceLine(line);
+          if (pastPerformance) {
+            if (pastPerformance.speedFigure !== undefined) pastPerformance.speedFigureScale = this.figureScale;
+            currentHorse.pastPerformances.push(pastPerformance);
+            continue;
+          }
+          const workout = parseWorkoutLine(line, date);
+          if (workout) {
+            currentHorse.workouts = [...(currentHorse.workouts || []), workout];
+            continue;
+          }
+          if (this.extractHorseDetails(line, currentHorse)) continue;
+        }
+
+        // Try to extract horse information
+        const horse = this.extractHorseFromLine(line);
+        if (horse) {
+          if (inAlsoEligibles) horse.alsoEligible = true;
+          currentHorses.push(horse);
+        }
+      }
+    }
+    
+    // Add the last race
+    if (currentRace && currentHorses.length > 0) {
+      this.addRace(races, {
+        ...currentRace,
+        horses: currentHorses
+      } as Race);
+    }
+    
+    return races;
+  }
+
+  // A race whose header is repeated (e.g. "RACE 3 (continued)" at the top of the
+  // next page) is merged into the race already read instead of duplicated
+  protected addRace(races: Race[], race: Race): void {
+    const existing = races.find(r => r.number === race.number);
+    if (!existing) {
+      races.push(race);
+      return;
+    }
+
+    existing.distance = existing.distance || race.distance;
+    existing.surface = existing.surface || race.surface;
+    existing.purse = existing.purse || race.purse;
+    existing.condition = existing.condition || race.condition;
+    existing.conditions = existing.conditions || race.conditions;
+    existing.raceType = existing.raceType || race.raceType;
+
+    for (const horse of race.horses) {
+      const sameHorse = existing.horses.find(h => getProgramNumber(h) === getProgramNumber(horse));
+      if (sameHorse) {
+        sameHorse.pastPerformances.push(...horse.pastPerformances);
+        if (horse.workouts) sameHorse.workouts = [...(sameHorse.workouts || []), ...horse.workouts];
+      } else {
+        existing.horses.push(horse);
+      }
+    }
+  }
+
+  protected extractHorseFromLine(line: string): Horse | null {
+    const row = parseHorseRow(line);
+    if (!row) return null;
+    
+    return {
+      // Assigned in parse() once the card's track and date are known
+      id: '',
+      number: parseInt(row.number),
+      programNumber: row.number,
+      ...(row.scratched && { scratched: true }),
+      ...(row.alsoEligible && { alsoEligible: true }),
+      name: row.name,
+      jockey: row.jockey || 'Unknown',
+      trainer: 'Unknown',
+      weight: row.weight ? parseInt(row.weight) : 120, // Default weight
+      // Odds printed in the program are the morning line
+      morningLine: row.odds,
+      speedFigures: {},
+      pastPerformances: [],
+      extraction: scoreExtraction(line, {
+        number: 1,
+        name: isValidHorseName(row.name) ? 1 : 0.4,
+        jockey: row.jockey ? 1 : 0,
+        morningLine: row.odds ? 1 : 0
+      })
+    };
+  }
+
+  // Fills trainer, jockey, weight, age and sex, foaling year, medication, blinkers,
+  // headline speed figures and morning line from lines under a horse
+  protected extractHorseDetails(line: string, horse: Horse): boolean {
+    const trainerMatch = line.match(/^(?:Trainer|Tr)[:.]?\s+([A-Za-z][A-Za-z.' -]+?)\s*(?:\(.*\))?$/i);
+    if (trainerMatch) {
+      horse.trainer = trainerMatch[1].trim();
+      return true;
+    }
+
+    const jockeyMatch = line.match(/^(?:Jockey|Jky)[:.]?\s+([A-Za-z][A-Za-z.' -]+?)\s*(?:\(.*\))?$/i);
+    if (jockeyMatch) {
+      horse.jockey = jockeyMatch[1].trim();
+      return true;
+    }
+
+    const weightMatch = line.match(/^(?:Weight|Wt)[:.]?\s*(\d{3})\b/i);
+    if (weightMatch) {
+      horse.weight = parseInt(weightMatch[1]);
+      return true;
+    }
+
+    // Pedigree line: "B. c. 3 (Apr)", "Dk B/ Br. g. 5"
+    const pedigreeMatch = line.match(PEDIGREE_PATTERN);
+    if (pedigreeMatch) {
+      horse.sex = HORSE_SEXES[pedigreeMatch[1].toLowerCase()];
+      horse.age = parseInt(pedigreeMatch[2]);
+      return true;
+    }
+
+    const foaledMatch = line.match(/^(?:Foaled|Fld)[:.]?\s*(?:[A-Za-z]+\.?\s+(?:\d{1,2},?\s+)?)?(\d{4})\b/i);
+    if (foaledMatch) {
+      horse.foalingYear = parseInt(foaledMatch[1]);
+      return true;
+    }
+
+    // Medication codes: "L" Lasix, "L1" first-time Lasix, "B" Bute, "BL" both
+    const medicationMatch = line.match(/^(?:Medication|Meds?)[:.]?\s*([A-Z0-9, ]+)$/i);
+    if (medicationMatch) {
+      const codes = medicationMatch[1].toUpperCase().split(/[\s,]+/);
+      horse.lasix = codes.some(code => /^B?L1?$/.test(code) || code === 'LASIX');
+      if (codes.some(code => /^B?L1$/.test(code))) horse.firstTimeLasix = true;
+      return true;
+    }
+
+    if (/^(?:First[- ]Time\s+Lasix|Lasix\s+1st\s+Time)$/i.test(line)) {
+      horse.lasix = true;
+      horse.firstTimeLasix = true;
+      return true;
+    }
+
+    // "Blinkers On" / "Blinkers Off", or equipment codes where B1 is blinkers on and B0 off
+    const blinkersMatch = line.match(/^(?:Blinkers\s+(On|Off)|(?:Equipment|Eq)[:.]?\s*(B[01]?)\b.*)$/i);
+    if (blinkersMatch) {
+      const code = (blinkersMatch[1] || blinkersMatch[2]).toUpperCase();
+      horse.blinkers = code !== 'OFF' && code !== 'B0';
+      if (code === 'ON' || code === 'B1') horse.blinkersChange = 'on';
+      if (code === 'OFF' || code === 'B0') horse.blinkersChange = 'off';
+      return true;
+    }
+
+    const figureMatch = line.match(HEADLINE_FIGURE_PATTERN);
+    if (figureMatch) {
+      const key = HEADLINE_FIGURE_KEYS[figureMatch[1].split(/\s+/)[0].toLowerCase()];
+      horse.speedFigures[key] = parseInt(figureMatch[2]);
+      return true;
+    }
+
+    const morningLineMatch = line.match(/^(?:Morning\s+Line|M\/?L)[:.]?\s*(\d+[-\/]\d+|even)\b/i);
+    if (morningLineMatch) {
+      horse.morningLine = morningLineMatch[1];
+      return true;
+    }
+
+    return false;
+  }
+
+  protected extractTrack(text: string): Track | null {
+    return trackRegistry.findInText(text);
+  }
+
+  protected extractDate(text: string): string | null {
+    // Date patterns: "March 15, 2024", "03/15/2024", "2024-03-15"
+    const datePatterns = [
+      /(\w+\s+\d{1,2},\s+\d{4})/,
+      /(\d{1,2}\/\d{1,2}\/\d{4})/,
+      /(\d{4}-\d{2}-\d{2})/
+    ];
+    
+    for (const pattern of datePatterns) {
+      const match = text.match(pattern);
+      if (match) {
+        const dateStr = match[1];
+        const date = new Date(dateStr);
+        if (!isNaN(date.getTime())) {
+          return date.toISOString().split('T')[0];
+        }
+      }
+    }
+    
+    return null;
+  }
+
+  protected extractDistance(text: string): Distance | null {
+    return parseDistance(text);
+  }
+
+  protected extractSurface(text: string): Surface | null {
+    if (/turf|grass/i.test(text)) return 'turf';
+    if (/synthetic|poly/i.test(text)) return 'synthetic';
+    if (/\bdirt\b|\bmain\b/i.test(text)) return 'dirt';
+    return null;
+  }
+
+  protected extractConditions(text: string): RaceConditions | null {
+    return parseRaceConditions(text);
+  }
+
+  // Only amounts labelled as the purse count; claiming prices and years look alike
+  protected extractPurse(text: string): number | null {
+    return parsePurse(text);
+  }
+}
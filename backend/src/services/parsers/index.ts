@@ -0,0 +1,7 @@
+export * from './types';
+export { GenericProgramParser } from './generic.parser';
+export { PublisherProgramParser, PublisherLayout, PUBLISHER_LAYOUTS } from './publisher.parser';
+export { ParserRegistry, parserRegistry } from './registry';
+export { scoreExtraction, applyDocumentConfidence } from './confidence';
+export { parseRaceConditions, parseClassLevel, formatRaceType } from './conditions.parser';
+export { parseWorkoutLine } from './workout.parser';
@@ -0,0 +1,28 @@
+import { parsePastPerformanceLine } from './pastPerformance.parser';
+
+const line = (calls: string) =>
+  `15Feb24 8SA fst 6f :21.4 :44.3 1:09.4 Clm 25000 85 ${calls} Prat F 120 3.20`;
+
+describe('parsePastPerformanceLine running calls', () => {
+  it.each<[string, number | undefined, number | undefined, { position: number; lengths?: number }[], number, number]>([
+    ['3 2 2hd 1½ 1²', 3, 2, [{ position: 2, lengths: 0.1 }, { position: 1, lengths: 0.5 }, { position: 1, lengths: 2 }], 1, 0],
+    // Plain digits are positions, never a position and a margin
+    ['11 12 12 10 8 11', 11, 12, [{ position: 12 }, { position: 10 }, { position: 8 }, { position: 11 }], 11, 0],
+    // Post and start are dropped even when no call has a margin
+    ['1 4 3 2 3 5', 1, 4, [{ position: 3 }, { position: 2 }, { position: 3 }, { position: 5 }], 5, 0],
+    // "11½" in a small field is first by one and a half
+    ['3 2 2hd 11½ 3³', 3, 2, [{ position: 2, lengths: 0.1 }, { position: 1, lengths: 1.5 }, { position: 3, lengths: 3 }], 3, 3],
+    // ...and eleventh by a half in a field of twelve
+    ['12 2 2hd 11½ 3³', 12, 2, [{ position: 2, lengths: 0.1 }, { position: 11, lengths: 0.5 }, { position: 3, lengths: 3 }], 3, 3],
+    // A line printed without post and start columns
+    ['2hd 1½ 1²', undefined, undefined, [{ position: 2, lengths: 0.1 }, { position: 1, lengths: 0.5 }, { position: 1, lengths: 2 }], 1, 0]
+  ])('reads "%s"', (calls, post, start, expected, finish, beaten) => {
+    const pp = parsePastPerformanceLine(line(calls))!;
+
+    expect(pp.postPosition).toBe(post);
+    expect(pp.startPosition).toBe(start);
+    expect(pp.calls).toEqual(expected);
+    expect(pp.finish).toBe(finish);
+    expect(pp.beaten).toBe(beaten);
+  });
+});
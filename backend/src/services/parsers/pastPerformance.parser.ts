@@ -0,0 +1,225 @@
+import { Distance, PastPerformance, RunningCall, parseDistance } from '@railbird/shared';
+import { scoreExtraction } from './confidence';
+import { trackRegistry } from '../tracks';
+
+// Parses Daily Racing Form-style running lines, e.g.
+//   15Feb24 8SA fst 6f :21.4 :44.3 1:09.4 Clm 25000 85 3 2 2hd 1½ 1² Prat F 120 3.20
+// Fields are read left to right: date, [race number]track, [surface marker], condition,
+// distance, fractional/final times, class, speed figure, then the running calls.
+// The last running call is the finish; its margin is the beaten lengths for non-winners.
+
+export const MONTHS: Record<string, string> = {
+  jan: '01', feb: '02', mar: '03', apr: '04', may: '05', jun: '06',
+  jul: '07', aug: '08', sep: '09', oct: '10', nov: '11', dec: '12'
+};
+
+const DATE_PATTERN = /^(\d{1,2})([A-Za-z]{3})(\d{2})\b|^(\d{1,2})\/(\d{1,2})\/(\d{2,4})\b/;
+// Charts print codes in capitals ("8KEE"), DRF lines in title case ("8Kee")
+const TRACK_PATTERN = /^(?:\d{1,2})?([A-Z][A-Za-z]{1,2})\b/;
+const TURF_CONDITIONS = ['fm', 'yl', 'sf', 'gf', 'hy'];
+const CONDITION_PATTERN = /^(fst|ft|gd|sly|sy|my|wf|fm|yl|sf|gf|hy|frz)$/i;
+// A leading "a" marks an about distance ("a7f")
+const DISTANCE_PATTERN = /^(a?\d{1,2}(?:_?\d\/\d{1,2}|[½¼¾⅛⅜⅝⅞])?(?:f|fur|m|mi)(?:\d{2,3}y?)?)$/i;
+const TIME_PATTERN = /^\d?:\d{2}(?:\.\d{1,2}|[¹²³⁴])?$/;
+const CLASS_PATTERN = /^(MdSpWt|MSW|Md\s?Sp\s?Wt|Md\s?\d+k?|MdClm\s?\d+k?|Md\s?Cl\s?\d+k?|Clm\s?\d+[kK]?|OC\s?\d+[kK]?(?:\/[nN]\d[xXlL])?|Alw\s?\d+[kK]?(?:[nN]\d[xXlL])?|Str\s?\d+[kK]?|Hcp\s?\d*[kK]?|Stk|[A-Z][A-Za-z]+(?:\s?G[1-3]|\s?Stk|\s?\d+[kK]))$/;
+// Margins are superscript or fractions, as printed: "1²" is first by two lengths. Plain
+// digits are all position, so "11" is eleventh; "11½" is read against the field size.
+const CALL_PATTERN = /^(\d{1,2})(hd|nk|no|ns|[⁰¹²³⁴⁵⁶⁷⁸⁹]{1,2}[½¼¾]?|[½¼¾])?$/;
+
+const FRACTIONS: Record<string, number> = { '½': 0.5, '¼': 0.25, '¾': 0.75, '⅛': 0.125, '⅜': 0.375, '⅝': 0.625, '⅞': 0.875 };
+const SHORT_MARGINS: Record<string, number> = { no: 0.05, ns: 0.05, hd: 0.1, nk: 0.25 };
+const SUPERSCRIPTS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+export const parsePPDate = (token: string): string | null => {
+  const match = token.match(DATE_PATTERN);
+  if (!match) return null;
+
+  if (match[1]) {
+    const month = MONTHS[match[2].toLowerCase()];
+    if (!month) return null;
+    return `20${match[3]}-${month}-${match[1].padStart(2, '0')}`;
+  }
+
+  const year = match[6].length === 2 ? `20${match[6]}` : match[6];
+  return `${year}-${match[4].padStart(2, '0')}-${match[5].padStart(2, '0')}`;
+};
+
+export const parseMargin = (rawMargin: string): number => {
+  if (!rawMargin) return 0;
+  const margin = rawMargin.replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹]/g, digit => String(SUPERSCRIPTS.indexOf(digit)));
+  if (SHORT_MARGINS[margin.toLowerCase()] !== undefined) return SHORT_MARGINS[margin.toLowerCase()];
+
+  const fractionMatch = margin.match(/^(\d*)\s?(\d)\/(\d{1,2})$/);
+  if (fractionMatch) {
+    return (parseInt(fractionMatch[1]) || 0) + parseInt(fractionMatch[2]) / parseInt(fractionMatch[3]);
+  }
+
+  const symbol = margin.slice(-1);
+  if (FRACTIONS[symbol] !== undefined) {
+    return (parseInt(margin.slice(0, -1)) || 0) + FRACTIONS[symbol];
+  }
+
+  return parseInt(margin) || 0;
+};
+
+const parsePurseFromClass = (classLevel: string): number => {
+  const match = classLevel.match(/(\d+)([kK])?/);
+  if (!match) return 0;
+  return parseInt(match[1]) * (match[2] ? 1000 : 1);
+};
+
+// "11½" is eleventh by a half or first by one and a half. The line's unambiguous
+// positions give a floor for the field size; a two-digit reading above it is split.
+const readCallPositions = (calls: { digits: string; margin: string }[]): { position: number; margin: string }[] => {
+  const isAmbiguous = (call: { digits: string; margin: string }) =>
+    call.digits.length === 2 && FRACTIONS[call.margin] !== undefined;
+  const fieldSize = Math.max(0, ...calls.filter(call => !isAmbiguous(call)).map(call => parseInt(call.digits)));
+
+  return calls.map(call => {
+    if (isAmbiguous(call) && fieldSize > 0 && parseInt(call.digits) > fieldSize) {
+      return { position: parseInt(call.digits.charAt(0)), margin: call.digits.charAt(1) + call.margin };
+    }
+    return { position: parseInt(call.digits), margin: call.margin };
+  });
+};
+
+export const isPastPerformanceLine = (line: string): boolean => {
+  return DATE_PATTERN.test(line.trim()) && TRACK_PATTERN.test(line.trim().split(/\s+/)[1] || '');
+};
+
+export const parsePastPerformanceLine = (line: string): PastPerformance | null => {
+  if (!isPastPerformanceLine(line)) return null;
+
+  // Keep "1 1/16m" and "6 1/2f" together as single distance tokens
+  const tokens = line.trim()
+    .replace(/\b(a?\d{1,2})\s+(\d\/\d{1,2})\s?(f|fur|m|mi)\b/gi, '$1_$2$3')
+    .split(/\s+/);
+
+  const date = parsePPDate(tokens[0]);
+  const trackMatch = tokens[1].match(TRACK_PATTERN);
+  if (!date || !trackMatch) return null;
+
+  let index = 2;
+  let surface: PastPerformance['surface'] = 'dirt';
+
+  // Optional surface marker before the condition
+  if (/^(T|ⓣ|turf)$/i.test(tokens[index] || '')) {
+    surface = 'turf';
+    index++;
+  } else if (/^(AW|Ⓐ|syn|poly|tap)$/i.test(tokens[index] || '')) {
+    surface = 'synthetic';
+    index++;
+  }
+
+  let condition = '';
+  let distance: Distance | null = null;
+  let time = '';
+  let classLevel = '';
+  let purse = 0;
+  let speedFigure: number | undefined;
+  const calls: { digits: string; margin: string }[] = [];
+
+  for (; index < tokens.length; index++) {
+    const token = tokens[index];
+
+    if (!condition && CONDITION_PATTERN.test(token)) {
+      condition = token.toLowerCase();
+      if (surface === 'dirt' && TURF_CONDITIONS.includes(condition)) surface = 'turf';
+      continue;
+    }
+
+    if (!distance && DISTANCE_PATTERN.test(token)) {
+      distance = parseDistance(token.replace('_', ' '));
+      if (distance) continue;
+    }
+
+    if (!classLevel && TIME_PATTERN.test(token)) {
+      // Fractions come first; the last time before the class is the final time
+      time = token;
+      continue;
+    }
+
+    if (!classLevel) {
+      // Class tokens like "Clm 25000" are split by whitespace
+      const candidate = `${token}${tokens[index + 1] && /^\d+[kK]?(?:\/?[nN]\d[xXlL])?$/.test(tokens[index + 1]) ? ' ' + tokens[index + 1] : ''}`;
+      if (CLASS_PATTERN.test(candidate)) {
+        classLevel = candidate;
+        purse = parsePurseFromClass(candidate);
+        if (candidate !== token) index++;
+        continue;
+      }
+      if (CLASS_PATTERN.test(token)) {
+        classLevel = token;
+        purse = parsePurseFromClass(token);
+        continue;
+      }
+    }
+
+    const purseMatch = token.match(/^\$([\d,]+)$/);
+    if (purseMatch) {
+      purse = parseInt(purseMatch[1].replace(/,/g, ''));
+      continue;
+    }
+
+    if (classLevel && speedFigure === undefined && /^\d{2,3}$/.test(token) && parseInt(token) <= 130) {
+      speedFigure = parseInt(token);
+      continue;
+    }
+
+    if (classLevel && speedFigure !== undefined) {
+      // A weight-sized number after the calls is the carried weight, not a call
+      if (calls.length > 0 && /^\d{3}$/.test(token) && parseInt(token) >= 100 && parseInt(token) <= 135) break;
+
+      const callMatch = token.match(CALL_PATTERN);
+      if (callMatch) {
+        calls.push({ digits: callMatch[1], margin: callMatch[2] || '' });
+        continue;
+      }
+      // Running calls end at the jockey name
+      if (calls.length > 0) break;
+    }
+  }
+
+  if (!distance || !classLevel) return null;
+
+  const positions = readCallPositions(calls);
+
+  // Post position and start are the two bare numbers ahead of the calls; a line that
+  // opens with a margin was printed without them
+  const hasPostColumns = positions.length >= 2 && !positions[0].margin && !positions[1].margin;
+  const postPosition = hasPostColumns ? positions[0].position : undefined;
+  const startPosition = hasPostColumns ? positions[1].position : undefined;
+  const runningCalls: RunningCall[] = (hasPostColumns ? positions.slice(2) : positions).map(call => ({
+    position: call.position,
+    ...(call.margin && { lengths: parseMargin(call.margin) })
+  }));
+
+  const finishCall = runningCalls.length > 0 ? positions[positions.length - 1] : undefined;
+  const finish = finishCall ? finishCall.position : 0;
+
+  return {
+    date,
+    track: trackRegistry.normalizeCode(trackMatch[1]),
+    distance,
+    surface,
+    condition: condition || 'fst',
+    finish,
+    beaten: finishCall && finish > 1 ? parseMargin(finishCall.margin) : 0,
+    ...(postPosition !== undefined && { postPosition }),
+    ...(startPosition !== undefined && { startPosition }),
+    ...(runningCalls.length > 0 && { calls: runningCalls }),
+    time,
+    speedFigure,
+    classLevel,
+    purse,
+    extraction: scoreExtraction(line.trim(), {
+      date: 1,
+      track: 1,
+      distance: 1,
+      classLevel: 1,
+      time: time ? 1 : 0,
+      speedFigure: speedFigure !== undefined ? 1 : 0,
+      finish: finish > 0 ? 1 : 0
+    })
+  };
+};
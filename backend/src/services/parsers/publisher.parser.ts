@@ -0,0 +1,50 @@
+import { SpeedFigureScale } from '@railbird/shared';
+import { GenericProgramParser } from './generic.parser';
+
+export interface PublisherLayout {
+  name: string;
+  // Layout markers (branding, column headings) that only appear in this publisher's programs
+  markers: RegExp[];
+  // Scale of the figures in the publisher's running lines
+  figureScale: SpeedFigureScale;
+}
+
+export const PUBLISHER_LAYOUTS: PublisherLayout[] = [
+  {
+    name: 'twinspires',
+    markers: [/twinspires/i, /brisnet|\bBRIS\b/i, /prime\s+power/i, /\bE1\s+E2\/?\s*LATE\b/i],
+    // Brisnet supplies the past performances in TwinSpires programs
+    figureScale: 'brisnet'
+  },
+  {
+    name: 'drf',
+    markers: [/daily\s+racing\s+form/i, /\bdrf(?:\.com)?\b/i, /beyer/i, /formulator/i],
+    figureScale: 'beyer'
+  },
+  {
+    name: 'dkhorse',
+    markers: [/dk\s*horse/i, /draft\s*kings/i, /dkhorse\.com/i],
+    figureScale: 'beyer'
+  }
+];
+
+// Parses a publisher's programs like the generic parser, but is only chosen when the
+// document carries that publisher's layout markers
+export class PublisherProgramParser extends GenericProgramParser {
+  readonly name: string;
+  protected readonly figureScale: SpeedFigureScale;
+  private readonly markers: RegExp[];
+
+  constructor(layout: PublisherLayout) {
+    super();
+    this.name = layout.name;
+    this.figureScale = layout.figureScale;
+    this.markers = layout.markers;
+  }
+
+  detect(text: string): number {
+    const hits = this.markers.filter(marker => marker.test(text)).length;
+    if (hits === 0) return 0;
+    return Math.min(1, 0.3 + hits * 0.2);
+  }
+}
@@ -0,0 +1,24 @@
+import { parserRegistry } from './registry';
+
+describe('parserRegistry', () => {
+  it('registers one parser per publisher layout ahead of the generic fallback', () => {
+    expect(parserRegistry.getParsers().map(parser => parser.name)).toEqual(['twinspires', 'drf', 'dkhorse', 'generic']);
+  });
+
+  it.each([
+    ['TwinSpires Handicapping Program\nBRIS Prime Power\nRACE 1', 'twinspires'],
+    ['Daily Racing Form\nBeyer Speed Figures\nRACE 1', 'drf'],
+    ['DK Horse program\nRACE 1', 'dkhorse'],
+    ['SANTA ANITA PARK\nRACE 1\n1 Silver Charm', 'generic']
+  ])('picks the parser for %p', (text, name) => {
+    expect(parserRegistry.select(text).parser.name).toBe(name);
+  });
+
+  it('scores a document higher the more of a layout\'s markers it carries', () => {
+    const twinSpires = parserRegistry.getParsers()[0];
+
+    expect(twinSpires.detect('TwinSpires')).toBeCloseTo(0.5);
+    expect(twinSpires.detect('TwinSpires BRIS Prime Power')).toBeCloseTo(0.9);
+    expect(twinSpires.detect('RACE 1')).toBe(0);
+  });
+});
@@ -0,0 +1,41 @@
+import { GenericProgramParser } from './generic.parser';
+import { PUBLISHER_LAYOUTS, PublisherProgramParser } from './publisher.parser';
+import { ParserSelection, RaceProgramParser } from './types';
+
+export class ParserRegistry {
+  private parsers: RaceProgramParser[] = [];
+
+  constructor(private readonly fallback: RaceProgramParser) {}
+
+  register(parser: RaceProgramParser): this {
+    this.parsers = this.parsers.filter(existing => existing.name !== parser.name);
+    this.parsers.push(parser);
+    return this;
+  }
+
+  getParsers(): RaceProgramParser[] {
+    return [...this.parsers, this.fallback];
+  }
+
+  // Picks the highest scoring parser, falling back to the generic one on ties or no match
+  select(text: string): ParserSelection {
+    let best: ParserSelection = {
+      parser: this.fallback,
+      score: this.fallback.detect(text)
+    };
+
+    for (const parser of this.parsers) {
+      const score = parser.detect(text);
+      if (score > best.score) {
+        best = { parser, score };
+      }
+    }
+
+    return best;
+  }
+}
+
+export const parserRegistry = PUBLISHER_LAYOUTS.reduce(
+  (registry, layout) => registry.register(new PublisherProgramParser(layout)),
+  new ParserRegistry(new GenericProgramParser())
+);
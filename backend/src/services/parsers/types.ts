@@ -0,0 +1,13 @@
+import { RaceCard } from '@railbird/shared';
+
+export interface RaceProgramParser {
+  readonly name: string;
+  // Returns 0-1: how confident the parser is that it understands this document's layout
+  detect(text: string): number;
+  parse(text: string): Partial<RaceCard>;
+}
+
+export interface ParserSelection {
+  parser: RaceProgramParser;
+  score: number;
+}
@@ -0,0 +1,73 @@
+import { Workout, parseDistance } from '@railbird/shared';
+import { MONTHS, parsePPDate } from './pastPerformance.parser';
+import { trackRegistry } from '../tracks';
+
+// Parses workout lines printed under the running lines, e.g.
+//   •8Aug24 Sar 4f fst :47.1 B 1/32
+//   Aug 1 Sar tr.t 5f gd 1:01.4 Hg 12/20
+// A leading bullet marks the fastest work of the day at the distance. Month-day dates
+// carry no year, so they are placed in the year before the race date.
+
+const WORKOUT_PATTERN = new RegExp(
+  '^(•|●)?\\s*(\\d{1,2}[A-Za-z]{3}\\d{2}|\\d{1,2}\\/\\d{1,2}\\/\\d{2,4}|[A-Za-z]{3}\\s?\\d{1,2})\\s+' +
+  '([A-Z][A-Za-z]{1,2})\\s+(?:(T|ⓣ|tr\\.t|trt)\\s+)?' +
+  '(\\d{1,2}(?:[½]|\\s?1\\/2)?f|\\dm)\\s+' +
+  '(fst|ft|gd|sly|sy|my|wf|fm|yl|sf|gf|hy|frz)\\s+' +
+  '(\\d?:\\d{2}(?:\\.\\d{1,2}|[¹²³⁴])?)\\s+' +
+  '([BH])(g)?' +
+  '(?:\\s+(\\d{1,3})\\/(\\d{1,3}))?$',
+  'i'
+);
+
+const TURF_MARKERS = ['t', 'ⓣ'];
+const TURF_CONDITIONS = ['fm', 'yl', 'sf', 'gf', 'hy'];
+const FIFTHS = '¹²³⁴';
+
+// ":48.2" and "1:01.4" read as decimal seconds; a superscript is fifths, as in ":47¹"
+export const parseWorkoutTime = (time: string): number => {
+  const match = time.match(/^(\d)?:(\d{2})(?:\.(\d{1,2})|([¹²³⁴]))?$/);
+  if (!match) return 0;
+  const minutes = match[1] ? parseInt(match[1]) : 0;
+  const fraction = match[3] ? parseFloat(`0.${match[3]}`) : match[4] ? (FIFTHS.indexOf(match[4]) + 1) / 5 : 0;
+  return minutes * 60 + parseInt(match[2]) + fraction;
+};
+
+const resolveDate = (token: string, raceDate: string): string | null => {
+  const dated = parsePPDate(token);
+  if (dated) return dated;
+
+  const match = token.match(/^([A-Za-z]{3})\s?(\d{1,2})$/);
+  const month = match && MONTHS[match[1].toLowerCase()];
+  if (!match || !month) return null;
+
+  const raceYear = parseInt(raceDate.slice(0, 4));
+  const date = `${raceYear}-${month}-${match[2].padStart(2, '0')}`;
+  return date > raceDate ? `${raceYear - 1}-${month}-${match[2].padStart(2, '0')}` : date;
+};
+
+export const parseWorkoutLine = (line: string, raceDate: string): Workout | null => {
+  const match = line.trim().match(WORKOUT_PATTERN);
+  if (!match) return null;
+
+  const [, bullet, dateToken, track, surfaceMarker, distanceToken, condition, time, manner, gate, rank, of] = match;
+  const date = resolveDate(dateToken, raceDate);
+  const distance = parseDistance(distanceToken);
+  if (!date || !distance) return null;
+
+  const lowerCondition = condition.toLowerCase();
+  const onTurf = (surfaceMarker && TURF_MARKERS.includes(surfaceMarker.toLowerCase())) || TURF_CONDITIONS.includes(lowerCondition);
+
+  return {
+    date,
+    track: trackRegistry.normalizeCode(track),
+    distance,
+    surface: onTurf ? 'turf' : 'dirt',
+    condition: lowerCondition,
+    time,
+    seconds: parseWorkoutTime(time),
+    manner: manner.toUpperCase() === 'B' ? 'breezing' : 'handily',
+    ...(gate && { fromGate: true }),
+    ...(rank && of && { rank: parseInt(rank), of: parseInt(of) }),
+    ...((bullet || rank === '1') && { bullet: true })
+  };
+};
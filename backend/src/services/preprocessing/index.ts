@@ -0,0 +1,3 @@
+export * from './types';
+export { PREPROCESS_PRESETS } from './presets';
+export { PreprocessingPipeline, preprocessingPipeline } from './pipeline';
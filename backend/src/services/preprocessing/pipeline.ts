@@ -0,0 +1,112 @@
+import sharp from 'sharp';
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../../config';
+import { logger } from '../../utils/logger';
+import { GreyImage, PreprocessPreset, PreprocessStep } from './types';
+import { PREPROCESS_PRESETS } from './presets';
+import { adaptiveThreshold, detectPageQuad, estimateSkewAngle, warpPerspective } from './raster';
+
+// Rotations smaller than this are left alone; resampling costs more than it gains
+const MIN_DESKEW_ANGLE = 0.2;
+
+// Runs a named preset over an image and returns the result as a PNG buffer.
+// Intermediate images stay in memory, so nothing is left behind on disk unless
+// a debug directory is configured.
+export class PreprocessingPipeline {
+  getPreset(name: string): PreprocessPreset {
+    const preset = PREPROCESS_PRESETS[name];
+    if (!preset) {
+      throw new Error(`Unknown preprocessing preset: ${name}. Available presets: ${Object.keys(PREPROCESS_PRESETS).join(', ')}`);
+    }
+    return preset;
+  }
+
+  async run(filePath: string, presetName: string): Promise<Buffer> {
+    const preset = this.getPreset(presetName);
+
+    // Honor EXIF orientation first; phone photos are often stored sideways
+    let image = await this.toGrey(sharp(filePath).rotate().greyscale());
+    await this.saveDebugImage(filePath, presetName, 0, 'input', image);
+
+    for (let i = 0; i < preset.length; i++) {
+      const step = preset[i];
+      try {
+        image = await this.applyStep(image, step);
+      } catch (error) {
+        // A step that cannot be applied to this image is skipped, not fatal
+        logger.warn(`Preprocessing step ${step.op} failed for ${path.basename(filePath)}:`, error);
+      }
+      await this.saveDebugImage(filePath, presetName, i + 1, step.op, image);
+    }
+
+    return this.fromGrey(image).toColourspace('b-w').png().toBuffer();
+  }
+
+  private async applyStep(image: GreyImage, step: PreprocessStep): Promise<GreyImage> {
+    switch (step.op) {
+      case 'perspective': {
+        const quad = detectPageQuad(image);
+        if (!quad) return image;
+        logger.info(`Correcting perspective to page corners ${quad.map(p => `${Math.round(p.x)},${Math.round(p.y)}`).join(' ')}`);
+        return warpPerspective(image, quad);
+      }
+      case 'cropBorder':
+        return this.toGrey(this.fromGrey(image).trim({ threshold: step.threshold ?? 20 }));
+      case 'deskew': {
+        const angle = estimateSkewAngle(image, step.maxAngle ?? 5);
+        if (Math.abs(angle) < MIN_DESKEW_ANGLE) return image;
+        logger.info(`Deskewing by ${angle.toFixed(1)} degrees`);
+        return this.toGrey(this.fromGrey(image).rotate(-angle, { background: '#ffffff' }));
+      }
+      case 'normalize':
+        return this.toGrey(this.fromGrey(image).normalise());
+      case 'denoise':
+        return this.toGrey(this.fromGrey(image).median(step.size ?? 3));
+      case 'sharpen':
+        return this.toGrey(this.fromGrey(image).sharpen());
+      case 'threshold':
+        return this.toGrey(this.fromGrey(image).threshold(step.value ?? 128));
+      case 'adaptiveThreshold':
+        return adaptiveThreshold(image, step.windowRatio ?? 1 / 16, step.offset ?? 0.15);
+      case 'upscale': {
+        const width = step.factor
+          ? Math.round(image.width * step.factor)
+          : Math.max(image.width, step.minWidth ?? image.width);
+        if (width === image.width) return image;
+        return this.toGrey(this.fromGrey(image).resize({ width, kernel: 'lanczos3' }));
+      }
+    }
+  }
+
+  private fromGrey(image: GreyImage): sharp.Sharp {
+    return sharp(image.data, { raw: { width: image.width, height: image.height, channels: 1 } });
+  }
+
+  private async toGrey(pipeline: sharp.Sharp): Promise<GreyImage> {
+    const { data, info } = await pipeline
+      .removeAlpha()
+      .toColourspace('b-w')
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    return { data, width: info.width, height: info.height };
+  }
+
+  // Writes <file>-<preset>-<step>-<op>.png so a bad scan can be traced step by step
+  private async saveDebugImage(filePath: string, presetName: string, index: number, op: string, image: GreyImage): Promise<void> {
+    const debugDir = config.ocr.preprocess.debugDir;
+    if (!debugDir) return;
+
+    try {
+      await fs.mkdir(debugDir, { recursive: true });
+      const baseName = path.basename(filePath, path.extname(filePath));
+      const outputPath = path.join(debugDir, `${baseName}-${presetName}-${index}-${op}.png`);
+      await this.fromGrey(image).png().toFile(outputPath);
+    } catch (error) {
+      logger.warn('Failed to save preprocessing debug image:', error);
+    }
+  }
+}
+
+export const preprocessingPipeline = new PreprocessingPipeline();
@@ -0,0 +1,41 @@
+import { PreprocessPreset } from './types';
+
+export const PREPROCESS_PRESETS: Record<string, PreprocessPreset> = {
+  // Contrast stretch and sharpen only, for clean digital images
+  standard: [
+    { op: 'normalize' },
+    { op: 'sharpen' }
+  ],
+
+  // Flatbed scans and rendered PDF pages: straight-on, but often slightly rotated
+  // and framed by dark scanner borders
+  scan: [
+    { op: 'cropBorder' },
+    { op: 'deskew' },
+    { op: 'normalize' },
+    { op: 'sharpen' }
+  ],
+
+  // Phone photos: the page sits at an angle in the frame, is shadowed and the
+  // print is small relative to the image
+  photo: [
+    { op: 'perspective' },
+    { op: 'deskew' },
+    { op: 'normalize' },
+    { op: 'denoise', size: 3 },
+    { op: 'adaptiveThreshold' },
+    { op: 'cropBorder' },
+    { op: 'upscale', minWidth: 1800 }
+  ],
+
+  threshold: [
+    { op: 'normalize' },
+    { op: 'threshold', value: 150 }
+  ],
+
+  upscale: [
+    { op: 'normalize' },
+    { op: 'upscale', factor: 2 },
+    { op: 'sharpen' }
+  ]
+};
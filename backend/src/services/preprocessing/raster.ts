@@ -0,0 +1,318 @@
+import { GreyImage, Point, Quad } from './types';
+
+// Pixel-level operations sharp does not provide. All of them work on greyscale
+// images where 0 is ink and 255 is paper.
+
+const WHITE = 255;
+
+// Otsu's method: the grey level that best separates ink from paper
+export const otsuThreshold = (image: GreyImage, stride = 1): number => {
+  const histogram = new Array<number>(256).fill(0);
+  let count = 0;
+
+  for (let y = 0; y < image.height; y += stride) {
+    for (let x = 0; x < image.width; x += stride) {
+      histogram[image.data[y * image.width + x]]++;
+      count++;
+    }
+  }
+
+  const total = histogram.reduce((sum, n, level) => sum + n * level, 0);
+  let backgroundSum = 0;
+  let backgroundCount = 0;
+  let best = 128;
+  let bestVariance = -1;
+
+  for (let level = 0; level < 256; level++) {
+    backgroundCount += histogram[level];
+    if (backgroundCount === 0) continue;
+    const foregroundCount = count - backgroundCount;
+    if (foregroundCount === 0) break;
+
+    backgroundSum += histogram[level] * level;
+    const backgroundMean = backgroundSum / backgroundCount;
+    const foregroundMean = (total - backgroundSum) / foregroundCount;
+    const variance = backgroundCount * foregroundCount * (backgroundMean - foregroundMean) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = level;
+    }
+  }
+
+  return best;
+};
+
+// Projection-profile skew detection: when the angle matches the text lines, ink
+// piles up in few rows and the sum of squared row counts peaks. Returns degrees,
+// positive when lines fall to the right.
+export const estimateSkewAngle = (image: GreyImage, maxAngle: number): number => {
+  // Sample about a million pixels regardless of resolution
+  const stride = Math.max(1, Math.round(Math.sqrt((image.width * image.height) / 1_000_000)));
+  const threshold = otsuThreshold(image, stride);
+  const xs: number[] = [];
+  const ys: number[] = [];
+
+  for (let y = 0; y < image.height; y += stride) {
+    for (let x = 0; x < image.width; x += stride) {
+      if (image.data[y * image.width + x] < threshold) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+
+  if (xs.length === 0) return 0;
+
+  const offset = image.width * Math.tan((maxAngle * Math.PI) / 180);
+  const binCount = Math.ceil((image.height + 2 * offset) / stride) + 1;
+
+  const score = (angle: number): number => {
+    const slope = Math.tan((angle * Math.PI) / 180);
+    const bins = new Int32Array(binCount);
+    for (let i = 0; i < xs.length; i++) {
+      bins[Math.floor((ys[i] - xs[i] * slope + offset) / stride)]++;
+    }
+    let sum = 0;
+    for (let i = 0; i < bins.length; i++) sum += bins[i] * bins[i];
+    return sum;
+  };
+
+  const search = (from: number, to: number, step: number): number => {
+    let bestAngle = 0;
+    let bestScore = -1;
+    for (let angle = from; angle <= to + 1e-9; angle += step) {
+      const angleScore = score(angle);
+      if (angleScore > bestScore) {
+        bestScore = angleScore;
+        bestAngle = angle;
+      }
+    }
+    return bestAngle;
+  };
+
+  // Coarse pass, then refine around the best coarse angle
+  const coarse = search(-maxAngle, maxAngle, 0.5);
+  return search(Math.max(-maxAngle, coarse - 0.5), Math.min(maxAngle, coarse + 0.5), 0.1);
+};
+
+const quadArea = (quad: Quad): number => {
+  let area = 0;
+  for (let i = 0; i < 4; i++) {
+    const current = quad[i];
+    const next = quad[(i + 1) % 4];
+    area += current.x * next.y - next.x * current.y;
+  }
+  return Math.abs(area) / 2;
+};
+
+// Finds the paper in a photo: the largest bright region, reduced to its four
+// extreme corners. Returns null when there is no clear page or the page already
+// fills the frame.
+export const detectPageQuad = (image: GreyImage): Quad | null => {
+  const scale = Math.min(1, 400 / Math.max(image.width, image.height));
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const small = Buffer.alloc(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const sourceX = Math.min(image.width - 1, Math.floor(x / scale));
+      const sourceY = Math.min(image.height - 1, Math.floor(y / scale));
+      small[y * width + x] = image.data[sourceY * image.width + sourceX];
+    }
+  }
+
+  const threshold = otsuThreshold({ data: small, width, height });
+  const labels = new Int32Array(width * height);
+  const stack = new Int32Array(width * height);
+  let bestLabel = 0;
+  let bestSize = 0;
+  let label = 0;
+
+  // Flood-fill the bright pixels into 4-connected regions
+  for (let start = 0; start < small.length; start++) {
+    if (labels[start] !== 0 || small[start] <= threshold) continue;
+
+    label++;
+    let size = 0;
+    let top = 0;
+    stack[top++] = start;
+    labels[start] = label;
+
+    while (top > 0) {
+      const index = stack[--top];
+      size++;
+      const x = index % width;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index - width,
+        index + width
+      ];
+
+      for (const neighbour of neighbours) {
+        if (neighbour >= 0 && neighbour < small.length && labels[neighbour] === 0 && small[neighbour] > threshold) {
+          labels[neighbour] = label;
+          stack[top++] = neighbour;
+        }
+      }
+    }
+
+    if (size > bestSize) {
+      bestSize = size;
+      bestLabel = label;
+    }
+  }
+
+  if (bestSize < width * height * 0.25) return null;
+
+  let topLeft: Point = { x: 0, y: 0 };
+  let topRight: Point = { x: 0, y: 0 };
+  let bottomRight: Point = { x: 0, y: 0 };
+  let bottomLeft: Point = { x: 0, y: 0 };
+  let minSum = Infinity, maxSum = -Infinity, minDiff = Infinity, maxDiff = -Infinity;
+
+  for (let index = 0; index < labels.length; index++) {
+    if (labels[index] !== bestLabel) continue;
+    const x = index % width;
+    const y = Math.floor(index / width);
+
+    if (x + y < minSum) { minSum = x + y; topLeft = { x, y }; }
+    if (x + y > maxSum) { maxSum = x + y; bottomRight = { x, y }; }
+    if (x - y > maxDiff) { maxDiff = x - y; topRight = { x, y }; }
+    if (x - y < minDiff) { minDiff = x - y; bottomLeft = { x, y }; }
+  }
+
+  const quad: Quad = [topLeft, topRight, bottomRight, bottomLeft];
+
+  // A region that is not roughly quadrilateral is not a page
+  const fill = quadArea(quad) / bestSize;
+  if (fill < 0.8 || fill > 1.25) return null;
+
+  const margin = Math.max(width, height) * 0.03;
+  const frame: Quad = [
+    { x: 0, y: 0 },
+    { x: width - 1, y: 0 },
+    { x: width - 1, y: height - 1 },
+    { x: 0, y: height - 1 }
+  ];
+  if (quad.every((corner, i) => Math.abs(corner.x - frame[i].x) < margin && Math.abs(corner.y - frame[i].y) < margin)) {
+    return null;
+  }
+
+  return quad.map(corner => ({
+    x: Math.min(image.width - 1, (corner.x + 0.5) / scale),
+    y: Math.min(image.height - 1, (corner.y + 0.5) / scale)
+  })) as Quad;
+};
+
+// Solves for the homography taking each `from` point to the matching `to` point
+const solveHomography = (from: Quad, to: Quad): number[] => {
+  const matrix: number[][] = [];
+
+  for (let i = 0; i < 4; i++) {
+    const { x: u, y: v } = from[i];
+    const { x, y } = to[i];
+    matrix.push([u, v, 1, 0, 0, 0, -u * x, -v * x, x]);
+    matrix.push([0, 0, 0, u, v, 1, -u * y, -v * y, y]);
+  }
+
+  // Gaussian elimination with partial pivoting
+  for (let column = 0; column < 8; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < 8; row++) {
+      if (Math.abs(matrix[row][column]) > Math.abs(matrix[pivot][column])) pivot = row;
+    }
+    [matrix[column], matrix[pivot]] = [matrix[pivot], matrix[column]];
+
+    for (let row = 0; row < 8; row++) {
+      if (row === column) continue;
+      const factor = matrix[row][column] / matrix[column][column];
+      for (let k = column; k < 9; k++) matrix[row][k] -= factor * matrix[column][k];
+    }
+  }
+
+  return matrix.map((row, i) => row[8] / row[i]);
+};
+
+const distance = (a: Point, b: Point): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Maps the page quad onto an upright rectangle with bilinear sampling
+export const warpPerspective = (image: GreyImage, quad: Quad): GreyImage => {
+  const [topLeft, topRight, bottomRight, bottomLeft] = quad;
+  const width = Math.round(Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight)));
+  const height = Math.round(Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight)));
+
+  const target: Quad = [
+    { x: 0, y: 0 },
+    { x: width - 1, y: 0 },
+    { x: width - 1, y: height - 1 },
+    { x: 0, y: height - 1 }
+  ];
+  const [a, b, c, d, e, f, g, h] = solveHomography(target, quad);
+  const data = Buffer.alloc(width * height, WHITE);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const w = g * x + h * y + 1;
+      const sourceX = (a * x + b * y + c) / w;
+      const sourceY = (d * x + e * y + f) / w;
+      const x0 = Math.floor(sourceX);
+      const y0 = Math.floor(sourceY);
+      if (x0 < 0 || y0 < 0 || x0 >= image.width - 1 || y0 >= image.height - 1) continue;
+
+      const dx = sourceX - x0;
+      const dy = sourceY - y0;
+      const i = y0 * image.width + x0;
+      const top = image.data[i] * (1 - dx) + image.data[i + 1] * dx;
+      const bottom = image.data[i + image.width] * (1 - dx) + image.data[i + image.width + 1] * dx;
+      data[y * width + x] = Math.round(top * (1 - dy) + bottom * dy);
+    }
+  }
+
+  return { data, width, height };
+};
+
+// Bradley's adaptive threshold: a pixel is ink when it is darker than the mean of
+// its neighbourhood by more than `offset`. Window sums come from a running column
+// sum, so memory stays at one row regardless of image size.
+export const adaptiveThreshold = (image: GreyImage, windowRatio: number, offset: number): GreyImage => {
+  const { width, height } = image;
+  const half = Math.max(1, Math.floor((width * windowRatio) / 2));
+  const columnSums = new Float64Array(width);
+  const data = Buffer.alloc(width * height);
+
+  // Prime the column sums with the rows above the first window center
+  for (let y = 0; y < Math.min(half, height); y++) {
+    for (let x = 0; x < width; x++) columnSums[x] += image.data[y * width + x];
+  }
+
+  for (let y = 0; y < height; y++) {
+    const entering = y + half;
+    const leaving = y - half - 1;
+    if (entering < height) {
+      for (let x = 0; x < width; x++) columnSums[x] += image.data[entering * width + x];
+    }
+    if (leaving >= 0) {
+      for (let x = 0; x < width; x++) columnSums[x] -= image.data[leaving * width + x];
+    }
+
+    const rows = Math.min(height - 1, y + half) - Math.max(0, y - half) + 1;
+    let windowSum = 0;
+    for (let x = 0; x < Math.min(half, width); x++) windowSum += columnSums[x];
+
+    for (let x = 0; x < width; x++) {
+      const right = x + half;
+      const left = x - half - 1;
+      if (right < width) windowSum += columnSums[right];
+      if (left >= 0) windowSum -= columnSums[left];
+
+      const columns = Math.min(width - 1, right) - Math.max(0, x - half) + 1;
+      const index = y * width + x;
+      data[index] = image.data[index] * rows * columns < windowSum * (1 - offset) ? 0 : WHITE;
+    }
+  }
+
+  return { data, width, height };
+};
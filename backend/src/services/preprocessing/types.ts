@@ -0,0 +1,35 @@
+// Single-channel 8-bit image held in memory between pipeline steps
+export interface GreyImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Page corners in clockwise order starting at the top left
+export type Quad = [Point, Point, Point, Point];
+
+export type PreprocessStep =
+  // Finds the page edges in a photo and warps the page to a flat rectangle
+  | { op: 'perspective' }
+  // Trims uniform margins (scanner borders, blank paper around the grid)
+  | { op: 'cropBorder'; threshold?: number }
+  // Rotates so text lines are horizontal; angles are in degrees
+  | { op: 'deskew'; maxAngle?: number }
+  | { op: 'normalize' }
+  | { op: 'denoise'; size?: number }
+  | { op: 'sharpen' }
+  // Global binarization at a fixed grey level
+  | { op: 'threshold'; value?: number }
+  // Binarization against the local mean, which copes with shadows and uneven light
+  | { op: 'adaptiveThreshold'; windowRatio?: number; offset?: number }
+  // Enlarges small text: to at least minWidth pixels wide, or by a fixed factor
+  | { op: 'upscale'; minWidth?: number; factor?: number };
+
+export type PreprocessOperation = PreprocessStep['op'];
+
+export type PreprocessPreset = PreprocessStep[];
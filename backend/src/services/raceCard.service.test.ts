@@ -0,0 +1,82 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Horse, RaceCard, assignRaceIds } from '@railbird/shared';
+import { FileDocumentStore } from './storage';
+import { RaceCardService } from './raceCard.service';
+
+const horse = (programNumber: string, name: string): Horse => ({
+  id: '',
+  name,
+  number: parseInt(programNumber),
+  programNumber,
+  jockey: 'J. Smith',
+  trainer: 'T. Jones',
+  weight: 120,
+  odds: '5-2',
+  morningLine: '5-2',
+  pastPerformances: [],
+  speedFigures: {}
+} as Horse);
+
+const raceCard = (): RaceCard => ({
+  id: 'card-1',
+  track: 'Saratoga',
+  trackCode: 'SAR',
+  date: '2024-08-15',
+  races: [assignRaceIds({
+    id: '',
+    number: 1,
+    track: 'Saratoga',
+    trackCode: 'SAR',
+    date: '2024-08-15',
+    distance: { value: 6, unit: 'furlongs', furlongs: 6, text: '6 Furlongs' },
+    surface: 'dirt',
+    condition: 'Claiming $25,000',
+    purse: 0,
+    raceType: 'Claiming',
+    horses: [horse('1', 'FAST ONE'), horse('1A', 'FAST ONE A'), horse('2', 'SLOW TWO')]
+  })],
+  uploadedAt: new Date('2024-08-14T12:00:00Z'),
+  userId: 'user-1',
+  originalFileName: 'card.pdf'
+});
+
+describe('RaceCardService.applyCorrection', () => {
+  let dataPath: string;
+  let service: RaceCardService;
+
+  beforeEach(async () => {
+    dataPath = await fs.mkdtemp(path.join(os.tmpdir(), 'race-cards-'));
+    service = new RaceCardService(new FileDocumentStore<RaceCard>('raceCards', dataPath));
+    await service.saveRaceCard(raceCard());
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataPath, { recursive: true, force: true });
+  });
+
+  const correct = (programNumber: string, field: 'odds' | 'morningLine' | 'number' | 'name', value: string) =>
+    service.applyCorrection('card-1', 'user-1', { raceNumber: 1, programNumber, field, value });
+
+  it.each(['7/2', '3.50', '+250', '-150', 'EVEN'])('accepts odds %s', async value => {
+    const card = await correct('1A', 'odds', value);
+    expect(card.races[0].horses[1].odds).toBe(value);
+  });
+
+  it.each(['0-1', '+000', '1.00', 'junk'])('rejects odds %s', async value => {
+    await expect(correct('1A', 'morningLine', value)).rejects.toMatchObject({ code: 'INVALID_CORRECTION' });
+  });
+
+  it('corrects a coupled entry by program number', async () => {
+    const card = await correct('1A', 'name', 'FIXED A');
+    expect(card.races[0].horses.map(h => h.name)).toEqual(['FAST ONE', 'FIXED A', 'SLOW TWO']);
+  });
+
+  it('renumbers to an entry letter and rejects a taken program number', async () => {
+    const card = await correct('2', 'number', '1b');
+    expect(card.races[0].horses[2]).toMatchObject({ programNumber: '1B', number: 1 });
+
+    await expect(correct('1B', 'number', '1A')).rejects.toMatchObject({ code: 'INVALID_CORRECTION' });
+  });
+});
@@ -0,0 +1,406 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  RaceCard,
+  Race,
+  Horse,
+  RaceCardCorrection,
+  HorseAppearance,
+  HorseCorrectionField,
+  RaceCorrectionField,
+  LateChange,
+  LateChangeType,
+  assignHorseIds,
+  createError,
+  findHorseByProgramNumber,
+  getProgramNumber,
+  isSameFoalCrop,
+  parseOdds
+} from '@railbird/shared';
+import { createDocumentStore, DocumentStore, ListResult } from './storage';
+import { isValidProgramNumber, isValidWeight } from './parsers/fields';
+import { formatRaceType, parseRaceConditions } from './parsers/conditions.parser';
+import { paceAnalyzer } from './pace';
+import { classService } from './class.service';
+import { formService } from './form.service';
+import { logger } from '../utils/logger';
+
+export interface CorrectionRequest {
+  raceNumber: number;
+  programNumber?: string;
+  field: HorseCorrectionField | RaceCorrectionField;
+  value: string | number;
+}
+
+export interface LateChangeRequest {
+  raceNumber: number;
+  programNumber: string;
+  type: LateChangeType;
+  value?: string | number;
+  reason?: string;
+}
+
+const HORSE_FIELDS: HorseCorrectionField[] = ['name', 'number', 'morningLine', 'odds'];
+const RACE_FIELDS: RaceCorrectionField[] = ['condition'];
+const LATE_CHANGE_TYPES: LateChangeType[] = [
+  'scratch', 'reinstate', 'draw-in', 'jockey', 'weight', 'blinkers-on', 'blinkers-off', 'lasix-on', 'lasix-off'
+];
+
+export class RaceCardService {
+  private store: DocumentStore<RaceCard>;
+
+  constructor(store?: DocumentStore<RaceCard>) {
+    this.store = store || createDocumentStore<RaceCard>('raceCards');
+  }
+
+  async saveRaceCard(raceCard: RaceCard): Promise<RaceCard> {
+    raceCard.races.forEach(race => this.applyModels(race));
+    await this.store.put(raceCard);
+    logger.info(`Race card saved: ${raceCard.id} (${raceCard.races.length} races)`);
+    return raceCard;
+  }
+
+  async getRaceCard(raceCardId: string, userId?: string): Promise<RaceCard | null> {
+    const raceCard = await this.store.get(raceCardId);
+    if (!raceCard) return null;
+    if (userId && raceCard.userId !== userId) return null;
+    return raceCard;
+  }
+
+  async getUserRaceCards(userId: string, page: number, limit: number): Promise<ListResult<RaceCard>> {
+    return this.store.list({
+      where: { userId },
+      orderBy: 'uploadedAt',
+      direction: 'desc',
+      offset: (page - 1) * limit,
+      limit
+    });
+  }
+
+  async getRace(raceCardId: string, raceNumber: number, userId?: string): Promise<Race | null> {
+    const raceCard = await this.getRaceCard(raceCardId, userId);
+    if (!raceCard) return null;
+    return raceCard.races.find(race => race.number === raceNumber) || null;
+  }
+
+  async getRaceById(raceCardId: string, raceId: string, userId?: string): Promise<Race | null> {
+    const raceCard = await this.getRaceCard(raceCardId, userId);
+    if (!raceCard) return null;
+    return raceCard.races.find(race => race.id === raceId) || null;
+  }
+
+  // Race ids are derived from track, date and race number, so the same race can sit
+  // on several of the user's cards; the most recently uploaded one wins
+  async findRaceById(raceId: string, userId: string): Promise<Race | null> {
+    const { items } = await this.store.list({ where: { userId }, orderBy: 'uploadedAt', direction: 'desc' });
+    for (const raceCard of items) {
+      const race = raceCard.races.find(r => r.id === raceId);
+      if (race) return race;
+    }
+    return null;
+  }
+
+  // Applies a user fix to one field and keeps the original OCR text alongside it
+  async applyCorrection(raceCardId: string, userId: string, request: CorrectionRequest): Promise<RaceCard> {
+    const raceCard = await this.getRaceCard(raceCardId, userId);
+    if (!raceCard) throw createError('Race card not found', 'NOT_FOUND');
+
+    const race = raceCard.races.find(r => r.number === request.raceNumber);
+    if (!race) throw createError(`Race ${request.raceNumber} not found`, 'NOT_FOUND');
+
+    let correction: RaceCardCorrection;
+
+    if (request.programNumber !== undefined) {
+      const field = request.field as HorseCorrectionField;
+      if (!HORSE_FIELDS.includes(field)) {
+        throw createError(`Field ${request.field} cannot be corrected on a horse`, 'INVALID_CORRECTION');
+      }
+
+      const horse = findHorseByProgramNumber(race, String(request.programNumber));
+      if (!horse) throw createError(`Horse ${request.programNumber} not found in race ${race.number}`, 'NOT_FOUND');
+
+      let value: string | number;
+      if (field === 'number') {
+        value = String(request.value).trim().toUpperCase();
+        if (!isValidProgramNumber(value)) {
+          throw createError('Program number must be a number with an optional entry letter, e.g. 1A', 'INVALID_CORRECTION');
+        }
+        const existing = findHorseByProgramNumber(race, value);
+        if (existing && existing !== horse) {
+          throw createError(`Race ${race.number} already has a horse ${value}`, 'INVALID_CORRECTION');
+        }
+      } else {
+        value = String(request.value).trim();
+        if (!value) throw createError(`${field} cannot be empty`, 'INVALID_CORRECTION');
+        // Read with the parser the value model prices odds with
+        if ((field === 'odds' || field === 'morningLine') && (parseOdds(value) ?? 0) <= 0) {
+          throw createError(`${field} must be odds such as 5-2, 3.50 or +250`, 'INVALID_CORRECTION');
+        }
+      }
+
+      correction = {
+        id: uuidv4(),
+        raceNumber: race.number,
+        programNumber: getProgramNumber(horse),
+        field,
+        previousValue: field === 'number' ? getProgramNumber(horse) : horse[field],
+        value,
+        originalText: horse.extraction?.sourceText,
+        correctedBy: userId,
+        correctedAt: new Date()
+      };
+
+      this.setHorseField(horse, field, value);
+      if (horse.extraction?.fields) horse.extraction.fields[field] = 1;
+      // Ids are derived from the program number and name
+      assignHorseIds(race, horse);
+    } else {
+      const field = request.field as RaceCorrectionField;
+      if (!RACE_FIELDS.includes(field)) {
+        throw createError(`Field ${request.field} cannot be corrected on a race`, 'INVALID_CORRECTION');
+      }
+
+      const value = String(request.value).trim();
+      if (!value) throw createError(`${field} cannot be empty`, 'INVALID_CORRECTION');
+
+      correction = {
+        id: uuidv4(),
+        raceNumber: race.number,
+        field,
+        previousValue: race[field],
+        value,
+        originalText: race.extraction?.sourceText,
+        correctedBy: userId,
+        correctedAt: new Date()
+      };
+
+      this.setRaceField(race, field, value);
+      if (race.extraction?.fields) race.extraction.fields[field] = 1;
+      this.refreshConditions(race);
+    }
+
+    raceCard.corrections = [...(raceCard.corrections || []), correction];
+    await this.store.put(raceCard);
+
+    logger.info(`Correction applied to race card ${raceCardId}: race ${correction.raceNumber} ${correction.field}`);
+    return raceCard;
+  }
+
+  // Swaps in a re-extracted card under the same id, so chat sessions keep pointing
+  // at it, and replays the user's earlier corrections and late changes onto the new data
+  async replaceRaceCard(raceCard: RaceCard): Promise<RaceCard> {
+    const existing = await this.store.get(raceCard.id);
+    const corrections = existing?.corrections || [];
+    const replayed = corrections.filter(correction => this.replayCorrection(raceCard, correction));
+
+    // Late changes are keyed by program number, so they replay after corrections
+    const changes = existing?.changes || [];
+    const replayedChanges = changes.filter(change => {
+      try {
+        this.prepareLateChange(raceCard, change)();
+        return true;
+      } catch {
+        return false;
+      }
+    });
+
+    raceCard.corrections = corrections;
+    raceCard.changes = changes;
+    raceCard.races.forEach(race => this.applyModels(race));
+    await this.store.put(raceCard);
+
+    logger.info(
+      `Race card replaced: ${raceCard.id} (${replayed.length} of ${corrections.length} corrections, ` +
+      `${replayedChanges.length} of ${changes.length} late changes reapplied)`
+    );
+    return raceCard;
+  }
+
+  private replayCorrection(raceCard: RaceCard, correction: RaceCardCorrection): boolean {
+    const race = raceCard.races.find(r => r.number === correction.raceNumber);
+    if (!race) return false;
+
+    if (correction.programNumber === undefined) {
+      const field = correction.field as RaceCorrectionField;
+      if (!RACE_FIELDS.includes(field)) return false;
+      this.setRaceField(race, field, String(correction.value));
+      if (race.extraction?.fields) race.extraction.fields[field] = 1;
+      this.refreshConditions(race);
+      return true;
+    }
+
+    // Corrections are keyed by the program number the horse had before the fix
+    const horse = findHorseByProgramNumber(race, correction.programNumber);
+    if (!horse) return false;
+
+    const field = correction.field as HorseCorrectionField;
+    if (!HORSE_FIELDS.includes(field)) return false;
+    this.setHorseField(horse, field, String(correction.value));
+    if (horse.extraction?.fields) horse.extraction.fields[field] = 1;
+    assignHorseIds(race, horse);
+    return true;
+  }
+
+  // The number field carries the program number; the betting interest is its numeric part
+  private setHorseField(horse: Horse, field: HorseCorrectionField, value: string): void {
+    switch (field) {
+      case 'name':
+        horse.name = value;
+        break;
+      case 'number':
+        horse.programNumber = value;
+        horse.number = parseInt(value);
+        break;
+      case 'morningLine':
+        horse.morningLine = value;
+        break;
+      case 'odds':
+        horse.odds = value;
+        break;
+    }
+  }
+
+  private setRaceField(race: Race, field: RaceCorrectionField, value: string): void {
+    switch (field) {
+      case 'condition':
+        race.condition = value;
+        break;
+    }
+  }
+
+  // Stores pace, class and form verdicts on the race so listings show them without reanalysis
+  private applyModels(race: Race): void {
+    paceAnalyzer.applyToRace(race);
+    classService.applyToRace(race);
+    formService.applyToRace(race);
+  }
+
+  // Re-reads the structured conditions after the printed conditions were corrected
+  private refreshConditions(race: Race): void {
+    const conditions = parseRaceConditions(race.condition);
+    if (!conditions) return;
+
+    race.conditions = conditions;
+    race.raceType = formatRaceType(conditions);
+    if (conditions.purse) race.purse = conditions.purse;
+    classService.applyToRace(race);
+  }
+
+  // Records scratches and late changes. Every change is checked before any is
+  // applied, so one bad entry leaves the card untouched.
+  async applyLateChanges(raceCardId: string, userId: string, requests: LateChangeRequest[]): Promise<RaceCard> {
+    const raceCard = await this.getRaceCard(raceCardId, userId);
+    if (!raceCard) throw createError('Race card not found', 'NOT_FOUND');
+
+    const changes = requests.map(request => {
+      if (!LATE_CHANGE_TYPES.includes(request.type)) {
+        throw createError(`Unknown change type ${request.type}`, 'INVALID_CHANGE');
+      }
+
+      const change: LateChange = {
+        id: uuidv4(),
+        raceNumber: request.raceNumber,
+        programNumber: String(request.programNumber).trim().toUpperCase(),
+        type: request.type,
+        value: request.value,
+        reason: request.reason,
+        appliedBy: userId,
+        appliedAt: new Date()
+      };
+
+      return { change, apply: this.prepareLateChange(raceCard, change) };
+    });
+
+    changes.forEach(({ apply }) => apply());
+    raceCard.changes = [...(raceCard.changes || []), ...changes.map(({ change }) => change)];
+
+    // Scratches change the shape of the race and the field every model rates against
+    const changedRaces = new Set(changes.map(({ change }) => change.raceNumber));
+    raceCard.races
+      .filter(race => changedRaces.has(race.number))
+      .forEach(race => this.applyModels(race));
+    await this.store.put(raceCard);
+
+    logger.info(`${changes.length} late changes applied to race card ${raceCardId}`);
+    return raceCard;
+  }
+
+  // Validates a change against the card and returns the update that applies it
+  private prepareLateChange(raceCard: RaceCard, change: LateChange): () => void {
+    const race = raceCard.races.find(r => r.number === change.raceNumber);
+    if (!race) throw createError(`Race ${change.raceNumber} not found`, 'NOT_FOUND');
+
+    const horse = findHorseByProgramNumber(race, change.programNumber);
+    if (!horse) throw createError(`Horse ${change.programNumber} not found in race ${race.number}`, 'NOT_FOUND');
+
+    switch (change.type) {
+      case 'scratch':
+        return () => { horse.scratched = true; };
+      case 'reinstate':
+        return () => { horse.scratched = false; };
+      case 'draw-in':
+        if (!horse.alsoEligible) {
+          throw createError(`Horse ${change.programNumber} is not an also-eligible`, 'INVALID_CHANGE');
+        }
+        return () => { horse.alsoEligible = false; };
+      case 'jockey': {
+        const jockey = String(change.value ?? '').trim();
+        if (!jockey) throw createError('A jockey change needs the new rider as value', 'INVALID_CHANGE');
+        return () => {
+          horse.originalJockey = horse.originalJockey || horse.jockey;
+          horse.jockey = jockey;
+        };
+      }
+      case 'weight':
+        if (!isValidWeight(String(change.value ?? ''))) {
+          throw createError('A weight change needs a weight between 100 and 135 as value', 'INVALID_CHANGE');
+        }
+        return () => { horse.weight = Number(change.value); };
+      case 'blinkers-on':
+      case 'blinkers-off':
+        return () => {
+          horse.blinkers = change.type === 'blinkers-on';
+          horse.blinkersChange = change.type === 'blinkers-on' ? 'on' : 'off';
+        };
+      case 'lasix-on':
+        return () => { horse.lasix = true; };
+      case 'lasix-off':
+        return () => {
+          horse.lasix = false;
+          horse.firstTimeLasix = false;
+        };
+    }
+  }
+
+  // Every entry of one horse across the user's cards, most recent race first. A
+  // foaling year leaves out namesakes from other crops; entries without one are kept.
+  async getHorseHistory(identityId: string, userId: string, foalingYear?: number): Promise<HorseAppearance[]> {
+    const { items } = await this.store.list({ where: { userId } });
+    const appearances: HorseAppearance[] = [];
+
+    for (const raceCard of items) {
+      for (const race of raceCard.races) {
+        const horse = race.horses.find(h =>
+          h.identityId === identityId && isSameFoalCrop(h.foalingYear, foalingYear)
+        );
+        if (!horse) continue;
+
+        appearances.push({
+          raceCardId: raceCard.id,
+          raceId: race.id,
+          track: race.track,
+          date: race.date,
+          raceNumber: race.number,
+          horse
+        });
+      }
+    }
+
+    return appearances.sort((a, b) => b.date.localeCompare(a.date) || b.raceNumber - a.raceNumber);
+  }
+
+  async deleteRaceCard(raceCardId: string): Promise<boolean> {
+    return this.store.delete(raceCardId);
+  }
+}
+
+export const raceCardService = new RaceCardService();
@@ -0,0 +1,68 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FileDocumentStore } from './file.store';
+
+interface Note {
+  id: string;
+  text: string;
+  tags: string[];
+  createdAt: Date;
+}
+
+const note = (id: string, text: string): Note => ({ id, text, tags: ['a'], createdAt: new Date('2024-08-15T12:00:00Z') });
+
+describe('FileDocumentStore', () => {
+  let dataPath: string;
+
+  beforeEach(async () => {
+    dataPath = await fs.mkdtemp(path.join(os.tmpdir(), 'file-store-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataPath, { recursive: true, force: true });
+  });
+
+  it('does not let callers change stored documents without a put', async () => {
+    const store = new FileDocumentStore<Note>('notes', dataPath);
+    const original = note('1', 'first');
+    await store.put(original);
+
+    original.text = 'changed after put';
+    const fetched = (await store.get('1'))!;
+    fetched.tags.push('changed after get');
+    const { items } = await store.list();
+    items[0].text = 'changed after list';
+
+    expect(await store.get('1')).toEqual(note('1', 'first'));
+  });
+
+  it('revives dates from disk', async () => {
+    await new FileDocumentStore<Note>('notes', dataPath).put(note('1', 'first'));
+
+    const reloaded = await new FileDocumentStore<Note>('notes', dataPath).get('1');
+    expect(reloaded?.createdAt).toEqual(new Date('2024-08-15T12:00:00Z'));
+  });
+
+  it('keeps the cache as it was when a write fails', async () => {
+    const store = new FileDocumentStore<Note>('notes', dataPath);
+    await store.put(note('1', 'first'));
+
+    const writeFile = jest.spyOn(fs, 'writeFile').mockRejectedValueOnce(new Error('disk full'));
+    await expect(store.put(note('2', 'second'))).rejects.toThrow('disk full');
+    await expect(store.delete('1')).resolves.toBe(true);
+    writeFile.mockRestore();
+
+    expect(await store.get('2')).toBeNull();
+    expect(await store.get('1')).toBeNull();
+  });
+
+  it('orders and pages listings', async () => {
+    const store = new FileDocumentStore<Note>('notes', dataPath);
+    await Promise.all(['b', 'c', 'a'].map(text => store.put(note(text, text))));
+
+    const { items, total } = await store.list({ orderBy: 'text', direction: 'desc', offset: 1, limit: 1 });
+    expect(total).toBe(3);
+    expect(items.map(item => item.text)).toEqual(['b']);
+  });
+});
@@ -0,0 +1,134 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { logger } from '../../utils/logger';
+import { DocumentStore, ListOptions, ListResult, StoredDocument } from './types';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z$/;
+
+// JSON has no Date type, so timestamps are revived on load
+const reviveDates = (key: string, value: any): any => {
+  if (typeof value === 'string' && ISO_DATE_PATTERN.test(value)) {
+    return new Date(value);
+  }
+  return value;
+};
+
+const compareValues = (a: any, b: any): number => {
+  const left = a instanceof Date ? a.getTime() : a;
+  const right = b instanceof Date ? b.getTime() : b;
+
+  if (left === right) return 0;
+  if (left === undefined || left === null) return -1;
+  if (right === undefined || right === null) return 1;
+  return left < right ? -1 : 1;
+};
+
+// Documents are cloned on the way in and out, like the Firestore backend, so callers
+// cannot change stored state without a put, and the cache only takes a change once
+// it is on disk.
+export class FileDocumentStore<T extends StoredDocument> implements DocumentStore<T> {
+  private documents?: Map<string, T>;
+  private loading?: Promise<Map<string, T>>;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private readonly filePath: string;
+
+  constructor(collection: string, dataPath: string) {
+    this.filePath = path.join(dataPath, `${collection}.json`);
+  }
+
+  async get(id: string): Promise<T | null> {
+    const documents = await this.load();
+    const document = documents.get(id);
+    return document ? structuredClone(document) : null;
+  }
+
+  async put(document: T): Promise<T> {
+    await this.load();
+    const stored = structuredClone(document);
+    await this.persist(documents => documents.set(stored.id, stored));
+    return document;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const documents = await this.load();
+    const existed = documents.has(id);
+    if (existed) {
+      await this.persist(next => next.delete(id));
+    }
+    return existed;
+  }
+
+  async list(options: ListOptions<T> = {}): Promise<ListResult<T>> {
+    const documents = await this.load();
+    const where = options.where || {};
+
+    let items = Array.from(documents.values()).filter(document =>
+      Object.entries(where).every(([key, value]) => (document as any)[key] === value)
+    );
+
+    if (options.orderBy) {
+      const key = options.orderBy;
+      const direction = options.direction === 'desc' ? -1 : 1;
+      items.sort((a, b) => compareValues(a[key], b[key]) * direction);
+    }
+
+    const total = items.length;
+    const offset = options.offset || 0;
+    items = options.limit !== undefined
+      ? items.slice(offset, offset + options.limit)
+      : items.slice(offset);
+
+    return { items: items.map(item => structuredClone(item)), total };
+  }
+
+  private load(): Promise<Map<string, T>> {
+    if (this.documents) return Promise.resolve(this.documents);
+
+    if (!this.loading) {
+      this.loading = this.readFromDisk().then(documents => {
+        this.documents = documents;
+        return documents;
+      }).catch(error => {
+        this.loading = undefined;
+        throw error;
+      });
+    }
+
+    return this.loading;
+  }
+
+  private async readFromDisk(): Promise<Map<string, T>> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf-8');
+      const records: T[] = JSON.parse(raw, reviveDates);
+      return new Map(records.map(record => [record.id, record]));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.error(`Failed to read data file: ${this.filePath}`, error);
+        throw error;
+      }
+      return new Map();
+    }
+  }
+
+  // Applies the change to a copy of the cache, writes the copy, and only then swaps it in
+  private persist(change: (documents: Map<string, T>) => void): Promise<void> {
+    // Serialize writes so concurrent updates never interleave on disk
+    const write = this.writeQueue.then(async () => {
+      const next = new Map(this.documents!);
+      change(next);
+      const tempPath = `${this.filePath}.tmp`;
+
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(Array.from(next.values()), null, 2));
+      await fs.rename(tempPath, this.filePath);
+      this.documents = next;
+    });
+
+    this.writeQueue = write.catch(error => {
+      logger.error(`Failed to write data file: ${this.filePath}`, error);
+    });
+
+    return write;
+  }
+}
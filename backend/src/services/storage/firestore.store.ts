@@ -0,0 +1,94 @@
+import admin from 'firebase-admin';
+import { config } from '../../config';
+import { DocumentStore, ListOptions, ListResult, StoredDocument } from './types';
+
+let firestore: admin.firestore.Firestore | undefined;
+
+const getFirestore = (): admin.firestore.Firestore => {
+  if (!firestore) {
+    const app = admin.apps.length > 0
+      ? admin.app()
+      : admin.initializeApp({
+          credential: admin.credential.cert({
+            projectId: config.firebase.projectId,
+            clientEmail: config.firebase.clientEmail,
+            privateKey: config.firebase.privateKey,
+          }),
+          databaseURL: config.firebase.databaseURL,
+        });
+
+    firestore = app.firestore();
+    firestore.settings({ ignoreUndefinedProperties: true });
+  }
+
+  return firestore;
+};
+
+// Firestore hands back Timestamps where we stored Dates
+const fromFirestore = (value: any): any => {
+  if (value instanceof admin.firestore.Timestamp) {
+    return value.toDate();
+  }
+  if (Array.isArray(value)) {
+    return value.map(fromFirestore);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, nested]) => [key, fromFirestore(nested)])
+    );
+  }
+  return value;
+};
+
+export class FirestoreDocumentStore<T extends StoredDocument> implements DocumentStore<T> {
+  constructor(private readonly collection: string) {}
+
+  private get ref(): admin.firestore.CollectionReference {
+    return getFirestore().collection(this.collection);
+  }
+
+  async get(id: string): Promise<T | null> {
+    const snapshot = await this.ref.doc(id).get();
+    return snapshot.exists ? (fromFirestore(snapshot.data()) as T) : null;
+  }
+
+  async put(document: T): Promise<T> {
+    await this.ref.doc(document.id).set(document);
+    return document;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const docRef = this.ref.doc(id);
+    const snapshot = await docRef.get();
+    if (!snapshot.exists) return false;
+
+    await docRef.delete();
+    return true;
+  }
+
+  async list(options: ListOptions<T> = {}): Promise<ListResult<T>> {
+    let query: admin.firestore.Query = this.ref;
+
+    Object.entries(options.where || {}).forEach(([key, value]) => {
+      query = query.where(key, '==', value);
+    });
+
+    const countSnapshot = await query.count().get();
+    const total = countSnapshot.data().count;
+
+    if (options.orderBy) {
+      query = query.orderBy(options.orderBy, options.direction || 'asc');
+    }
+    if (options.offset) {
+      query = query.offset(options.offset);
+    }
+    if (options.limit !== undefined) {
+      query = query.limit(options.limit);
+    }
+
+    const snapshot = await query.get();
+    const items = snapshot.docs.map(doc => fromFirestore(doc.data()) as T);
+
+    return { items, total };
+  }
+}
@@ -0,0 +1,16 @@
+import { config } from '../../config';
+import { FileDocumentStore } from './file.store';
+import { FirestoreDocumentStore } from './firestore.store';
+import { DocumentStore, StoredDocument } from './types';
+
+export * from './types';
+export { FileDocumentStore } from './file.store';
+export { FirestoreDocumentStore } from './firestore.store';
+
+export const createDocumentStore = <T extends StoredDocument>(collection: string): DocumentStore<T> => {
+  if (config.storage.driver === 'firestore') {
+    return new FirestoreDocumentStore<T>(collection);
+  }
+
+  return new FileDocumentStore<T>(collection, config.storage.dataPath);
+};
@@ -0,0 +1,24 @@
+export interface StoredDocument {
+  id: string;
+}
+
+export interface ListOptions<T> {
+  where?: Partial<T>;
+  orderBy?: keyof T & string;
+  direction?: 'asc' | 'desc';
+  offset?: number;
+  limit?: number;
+}
+
+export interface ListResult<T> {
+  items: T[];
+  total: number;
+}
+
+// Minimal persistence contract shared by the file and Firestore backends
+export interface DocumentStore<T extends StoredDocument> {
+  get(id: string): Promise<T | null>;
+  put(document: T): Promise<T>;
+  delete(id: string): Promise<boolean>;
+  list(options?: ListOptions<T>): Promise<ListResult<T>>;
+}
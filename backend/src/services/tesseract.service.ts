@@ -0,0 +1,155 @@
+import { createWorker, ImageLike, RecognizeResult, Worker } from 'tesseract.js';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+interface PooledWorker {
+  worker: Worker;
+  busy: boolean;
+  lastUsedAt: number;
+}
+
+interface RecognitionJob {
+  image: ImageLike;
+  queuedAt: number;
+  resolve: (result: RecognizeResult) => void;
+  reject: (error: Error) => void;
+}
+
+// Long-lived Tesseract workers with the English data already loaded. Jobs wait in
+// a FIFO queue, at most `poolSize` run at once, and workers idle for longer than
+// `idleTimeoutMs` are shut down to give their memory back.
+export class TesseractWorkerPool {
+  private workers: PooledWorker[] = [];
+  private starting = 0;
+  private queue: RecognitionJob[] = [];
+  private idleTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly poolSize: number = config.ocr.tesseract.poolSize,
+    private readonly maxQueueLength: number = config.ocr.tesseract.maxQueueLength,
+    private readonly idleTimeoutMs: number = config.ocr.tesseract.idleTimeoutMs
+  ) {}
+
+  recognize(image: ImageLike): Promise<RecognizeResult> {
+    if (this.queue.length >= this.maxQueueLength) {
+      return Promise.reject(new Error('OCR queue is full, try again shortly'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ image, queuedAt: Date.now(), resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  getStats() {
+    return {
+      workers: this.workers.length,
+      busy: this.workers.filter(pooled => pooled.busy).length,
+      starting: this.starting,
+      queued: this.queue.length
+    };
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.idleTimer) clearInterval(this.idleTimer);
+    this.idleTimer = undefined;
+
+    this.queue.splice(0).forEach(job => job.reject(new Error('OCR worker pool is shutting down')));
+
+    const workers = this.workers.splice(0);
+    await Promise.all(workers.map(pooled => this.terminate(pooled)));
+    logger.info(`Tesseract worker pool shut down (${workers.length} workers)`);
+  }
+
+  private dispatch(): void {
+    let idle = this.workers.find(pooled => !pooled.busy);
+
+    while (idle && this.queue.length > 0) {
+      this.run(idle, this.queue.shift()!);
+      idle = this.workers.find(pooled => !pooled.busy);
+    }
+
+    // Grow the pool only as far as the waiting jobs need
+    const capacity = this.poolSize - this.workers.length - this.starting;
+    const needed = Math.min(this.queue.length - this.starting, capacity);
+    for (let i = 0; i < needed; i++) {
+      this.spawn();
+    }
+  }
+
+  private async spawn(): Promise<void> {
+    this.starting++;
+
+    try {
+      const worker = await createWorker('eng');
+      this.workers.push({ worker, busy: false, lastUsedAt: Date.now() });
+      this.scheduleIdleCheck();
+      logger.info(`Tesseract worker started (${this.workers.length}/${this.poolSize})`);
+    } catch (error) {
+      logger.error('Failed to start Tesseract worker:', error);
+
+      // With no worker running or on the way, nothing would ever drain the queue
+      if (this.workers.length === 0 && this.starting === 1) {
+        const reason = error instanceof Error ? error : new Error('Failed to start Tesseract worker');
+        this.queue.splice(0).forEach(job => job.reject(reason));
+      }
+    } finally {
+      this.starting--;
+      this.dispatch();
+    }
+  }
+
+  private run(pooled: PooledWorker, job: RecognitionJob): void {
+    pooled.busy = true;
+    const waitedMs = Date.now() - job.queuedAt;
+    if (waitedMs > 1000) {
+      logger.info(`OCR job waited ${waitedMs}ms for a Tesseract worker`);
+    }
+
+    pooled.worker.recognize(job.image)
+      .then(result => {
+        pooled.busy = false;
+        pooled.lastUsedAt = Date.now();
+        job.resolve(result);
+      })
+      .catch(error => {
+        // A worker that failed mid-job may be in a bad state; replace it
+        this.workers = this.workers.filter(candidate => candidate !== pooled);
+        this.terminate(pooled);
+        job.reject(error instanceof Error ? error : new Error(String(error)));
+      })
+      .finally(() => this.dispatch());
+  }
+
+  private scheduleIdleCheck(): void {
+    if (this.idleTimer) return;
+
+    this.idleTimer = setInterval(() => {
+      const cutoff = Date.now() - this.idleTimeoutMs;
+      const expired = this.workers.filter(pooled => !pooled.busy && pooled.lastUsedAt < cutoff);
+      if (expired.length === 0) return;
+
+      this.workers = this.workers.filter(pooled => !expired.includes(pooled));
+      expired.forEach(pooled => this.terminate(pooled));
+      logger.info(`Stopped ${expired.length} idle Tesseract workers (${this.workers.length} remaining)`);
+
+      if (this.workers.length === 0 && this.idleTimer) {
+        clearInterval(this.idleTimer);
+        this.idleTimer = undefined;
+      }
+    }, Math.min(this.idleTimeoutMs, 60000));
+
+    // The idle check alone should not keep the process alive
+    this.idleTimer.unref();
+  }
+
+  private async terminate(pooled: PooledWorker): Promise<void> {
+    try {
+      await pooled.worker.terminate();
+    } catch (error) {
+      logger.warn('Failed to terminate Tesseract worker:', error);
+    }
+  }
+}
+
+export const tesseractPool = new TesseractWorkerPool();
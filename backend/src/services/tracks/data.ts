@@ -0,0 +1,162 @@
+import { Surface, Track, TrackTier } from '@railbird/shared';
+
+const DIRT_TURF: Surface[] = ['dirt', 'turf'];
+const DIRT: Surface[] = ['dirt'];
+const TURF: Surface[] = ['turf'];
+const SYNTHETIC_TURF: Surface[] = ['synthetic', 'turf'];
+
+// Typical cards, in furlongs
+const AMERICAN_DISTANCES = [5, 5.5, 6, 6.5, 7, 8, 8.5, 9];
+const SPRINT_DISTANCES = [4.5, 5, 5.5, 6, 6.5, 7, 8, 8.32];
+const EUROPEAN_DISTANCES = [5, 6, 7, 8, 10, 10.5, 12, 14, 16];
+
+// Tier 1 runs the major meets and most graded stakes, tier 3 the small-purse and
+// regional meets; every other track is tier 2. Keyed by primary code.
+const TIER_1 = [
+  'AQU', 'BEL', 'SAR', 'GP', 'KEE', 'CD', 'OP', 'SA', 'DMR', 'WO',
+  'ASC', 'EPS', 'NMK', 'YOR', 'GDW', 'CUR', 'LEO', 'LCH', 'CHY', 'DEA',
+  'MEY', 'KSA', 'TOK', 'KYO', 'NAK', 'ST', 'HV', 'FLM', 'RAN'
+];
+const TIER_3 = [
+  'FL', 'MNR', 'TDN', 'BTP', 'MVR', 'DED', 'EVD', 'LAD', 'WRD', 'FON', 'SUN',
+  'ZIA', 'ALB', 'RUI', 'TUP', 'FNO', 'FE', 'HST', 'NP'
+];
+
+const getTier = (code: string): TrackTier => {
+  if (TIER_1.includes(code)) return 1;
+  if (TIER_3.includes(code)) return 3;
+  return 2;
+};
+
+interface TrackEntry {
+  codes: string[];
+  name: string;
+  aliases?: string[];
+  timezone: string;
+  surfaces: Surface[];
+  typicalDistances: number[];
+}
+
+const entries = (country: string, list: TrackEntry[]): Track[] => list.map(entry => ({
+  code: entry.codes[0],
+  name: entry.name,
+  aliases: entry.aliases,
+  codes: entry.codes,
+  country,
+  timezone: entry.timezone,
+  surfaces: entry.surfaces,
+  tier: getTier(entry.codes[0]),
+  typicalDistances: entry.typicalDistances
+}));
+
+const EASTERN = 'America/New_York';
+const CENTRAL = 'America/Chicago';
+const MOUNTAIN = 'America/Denver';
+const PACIFIC = 'America/Los_Angeles';
+
+export const TRACKS: Track[] = [
+  ...entries('US', [
+    { codes: ['AQU', 'BAQ'], name: 'Aqueduct', aliases: ['Big A', 'Belmont at the Big A'], timezone: EASTERN, surfaces: DIRT_TURF, typicalDistances: AMERICAN_DISTANCES },
+    { codes: ['BEL'], name: 'Belmont Park', aliases: ['Belmont'], timezone: EASTERN, surfaces: DIRT_TURF, typicalDistances: [6, 6.5, 7, 8, 8.5, 9, 10, 12] },
+    { codes: ['SAR'], name: 'Saratoga', aliases: ['Saratoga Race Course', 'Belmont at Saratoga'], timezone: EASTERN, surfaces: DIRT_TURF, typicalDistances: [5.5, 6, 6.5, 7, 8, 8.5, 9, 10] },
+    { codes: ['FL'], name: 'Finger Lakes', timezone: EASTERN, surfaces: DIRT, typicalDistances: [5, 5.5, 6, 8, 8.32, 8.5] },
+    { codes: ['GP'], name: 'Gulfstream Park', aliases: ['Gulfstream'], timezone: EASTERN, surfaces: DIRT_TURF, typicalDistances: [5, 5.5, 6, 7, 8, 8.5, 9] },
+    { codes: ['GPW'], name: 'Gulfstream Park West', timezone: EASTERN, surfaces: DIRT_TURF, typicalDistances: [5, 6, 7, 8, 8.5] },
+    { codes: ['TAM'], name: 'Tampa Bay Downs', aliases: ['Tampa Bay'], timezone: EASTERN, surfaces: DIRT_TURF, typicalDistances: [5, 6, 7, 8, 8.32, 8.5, 9] },
+    { codes: ['KEE'], name: 'Keeneland', timezone: EASTERN, surfaces: DIRT_TURF, typicalDistances: [5.5, 6, 6.5, 7, 8, 8.5, 9] },
+    { codes: ['CD'], name: 'Churchill Downs', aliases: ['Churchill'], timezone: EASTERN, surfaces: DIRT_TURF, typicalDistances: [5, 5.5, 6, 6.5, 7, 8, 8.5, 9, 10] },
+    { codes: ['ELP'], name: 'Ellis Park', timezone: CENTRAL, surfaces: DIRT_TURF, typicalDistances: [5, 5.5, 6, 8, 8.5] },
+    { codes: ['KD'], name: 'Kentucky Downs', timezone: CENTRAL, surfaces: TURF, typicalDistances: [6, 6.5, 8, 8.5, 10.5, 12] },
+    { codes: ['TP'], name: 'Turfway Park', aliases: ['Turfway'], timezone: EASTERN, surfaces: ['synthetic'], typicalDistances: [5, 5.5, 6, 6.5, 8, 8.5] },
+    { codes: ['LRL'], name: 'Laurel Park', aliases: ['Laurel'], timezone: EASTERN, surfaces: DIRT_TURF, typicalDistances: [5, 5.5, 6, 7, 8, 8.5, 9] },
+    { codes: ['PIM'], name: 'Pimlico', aliases: ['Pimlico Race Course'], timezone: EASTERN, surfaces: DIRT_TURF, typicalDistances: [5, 6, 8, 8.5, 9.5] },
+    { codes: ['MTH'], name: 'Monmouth Park', aliases: ['Monmouth'], timezone: EASTERN, surfaces: DIRT_TURF, typicalDistances: [5, 5.5, 6, 8, 8.32, 8.5, 9] },
+    { codes: ['PRX', 'PHA'], name: 'Parx Racing', aliases: ['Parx', 'Philadelphia Park'], timezone: EASTERN, surfaces: DIRT_TURF, typicalDistances: [5, 5.5, 6, 6.5, 7, 8, 8.32, 8.5] },
+    { codes: ['PEN'], name: 'Penn National', timezone: EASTERN, surfaces: DIRT_TURF, typicalDistances: [5, 5.5, 6, 8, 8.32, 8.5] },
+    { codes: ['PID'], name: 'Presque Isle Downs', timezone: EASTERN, surfaces: ['synthetic'], typicalDistances: [5, 5.5, 6, 6.5, 8, 8.32] },
+    { codes: ['DEL'], name: 'Delaware Park', timezone: EASTERN, surfaces: DIRT_TURF, typicalDistances: [5, 5.5, 6, 8, 8.32, 8.5] },
+    { codes: ['CT'], name: 'Charles Town', timezone: EASTERN, surfaces: DIRT, typicalDistances: [4.5, 6.5, 7] },
+    { codes: ['MNR'], name: 'Mountaineer', aliases: ['Mountaineer Park'], timezone: EASTERN, surfaces: DIRT_TURF, typicalDistances: [5, 6, 8, 8.32, 8.5] },
+    { codes: ['CNL'], name: 'Colonial Downs', timezone: EASTERN, surfaces: DIRT_TURF, typicalDistances: [5, 5.5, 6, 8, 8.5, 9] },
+    { codes: ['TDN'], name: 'Thistledown', timezone: EASTERN, surfaces: DIRT, typicalDistances: [5, 5.5, 6, 8, 8.32, 8.5] },
+    { codes: ['BTP'], name: 'Belterra Park', timezone: EASTERN, surfaces: DIRT_TURF, typicalDistances: [5, 6, 8, 8.32, 8.5] },
+    { codes: ['MVR'], name: 'Mahoning Valley', aliases: ['Mahoning Valley Race Course'], timezone: EASTERN, surfaces: DIRT, typicalDistances: [5, 6, 8, 8.32] },
+    { codes: ['IND'], name: 'Horseshoe Indianapolis', aliases: ['Indiana Grand'], timezone: EASTERN, surfaces: DIRT_TURF, typicalDistances: [5, 5.5, 6, 8, 8.32, 8.5] },
+    { codes: ['OP'], name: 'Oaklawn Park', aliases: ['Oaklawn'], timezone: CENTRAL, surfaces: DIRT, typicalDistances: [5.5, 6, 8, 8.5, 9] },
+    { codes: ['FG'], name: 'Fair Grounds', aliases: ['Fair Grounds Race Course'], timezone: CENTRAL, surfaces: DIRT_TURF, typicalDistances: [5.5, 6, 8, 8.32, 8.5, 9] },
+    { codes: ['DED'], name: 'Delta Downs', timezone: CENTRAL, surfaces: DIRT, typicalDistances: [3.5, 5, 6.5, 7.5, 8] },
+    { codes: ['EVD'], name: 'Evangeline Downs', timezone: CENTRAL, surfaces: DIRT_TURF, typicalDistances: [5, 5.5, 6, 7.5, 8] },
+    { codes: ['LAD'], name: 'Louisiana Downs', timezone: CENTRAL, surfaces: DIRT_TURF, typicalDistances: [5, 6, 8, 8.5] },
+    { codes: ['HOU'], name: 'Sam Houston', aliases: ['Sam Houston Race Park'], timezone: CENTRAL, surfaces: DIRT_TURF, typicalDistances: [5, 5.5, 6, 7.5, 8, 8.5] },
+    { codes: ['LS'], name: 'Lone Star Park', aliases: ['Lone Star'], timezone: CENTRAL, surfaces: DIRT_TURF, typicalDistances: [5, 5.5, 6, 7.5, 8, 8.5] },
+    { codes: ['RP'], name: 'Remington Park', timezone: CENTRAL, surfaces: DIRT_TURF, typicalDistances: [5, 5.5, 6, 6.5, 8, 8.32, 8.5] },
+    { codes: ['WRD'], name: 'Will Rogers Downs', timezone: CENTRAL, surfaces: DIRT, typicalDistances: [5, 6, 6.5, 8, 8.5] },
+    { codes: ['HAW'], name: 'Hawthorne', aliases: ['Hawthorne Race Course'], timezone: CENTRAL, surfaces: DIRT_TURF, typicalDistances: [5, 6, 6.5, 8, 8.5] },
+    { codes: ['AP'], name: 'Arlington Park', aliases: ['Arlington', 'Arlington International'], timezone: CENTRAL, surfaces: SYNTHETIC_TURF, typicalDistances: [5, 6, 7, 8, 8.5, 9] },
+    { codes: ['CBY'], name: 'Canterbury Park', aliases: ['Canterbury'], timezone: CENTRAL, surfaces: DIRT_TURF, typicalDistances: [5, 5.5, 6, 8, 8.32, 8.5] },
+    { codes: ['PRM'], name: 'Prairie Meadows', timezone: CENTRAL, surfaces: DIRT_TURF, typicalDistances: [5, 5.5, 6, 8, 8.32, 8.5] },
+    { codes: ['FON'], name: 'Fonner Park', timezone: CENTRAL, surfaces: DIRT, typicalDistances: [4, 6, 8, 8.5] },
+    { codes: ['SUN'], name: 'Sunland Park', timezone: MOUNTAIN, surfaces: DIRT, typicalDistances: [5, 5.5, 6, 8, 8.5] },
+    { codes: ['ZIA'], name: 'Zia Park', timezone: MOUNTAIN, surfaces: DIRT, typicalDistances: [5, 5.5, 6, 8, 8.5] },
+    { codes: ['ALB'], name: 'Albuquerque', aliases: ['The Downs at Albuquerque'], timezone: MOUNTAIN, surfaces: DIRT, typicalDistances: [5, 5.5, 6, 8, 8.5] },
+    { codes: ['RUI'], name: 'Ruidoso Downs', timezone: MOUNTAIN, surfaces: DIRT, typicalDistances: [5.5, 6, 7.5] },
+    { codes: ['TUP'], name: 'Turf Paradise', timezone: 'America/Phoenix', surfaces: DIRT_TURF, typicalDistances: [4.5, 5, 5.5, 6, 6.5, 8, 8.5] },
+    { codes: ['SA'], name: 'Santa Anita', aliases: ['Santa Anita Park'], timezone: PACIFIC, surfaces: DIRT_TURF, typicalDistances: [5.5, 6, 6.5, 7, 8, 8.5, 9, 10] },
+    { codes: ['DMR'], name: 'Del Mar', timezone: PACIFIC, surfaces: DIRT_TURF, typicalDistances: [5, 5.5, 6, 6.5, 7, 8, 8.5] },
+    { codes: ['LA'], name: 'Los Alamitos', aliases: ['Los Alamitos Race Course'], timezone: PACIFIC, surfaces: DIRT, typicalDistances: [5, 5.5, 6, 6.5, 8, 8.5] },
+    { codes: ['GG'], name: 'Golden Gate Fields', aliases: ['Golden Gate'], timezone: PACIFIC, surfaces: SYNTHETIC_TURF, typicalDistances: [5, 5.5, 6, 8, 8.5, 9] },
+    { codes: ['FNO'], name: 'Fresno', aliases: ['Big Fresno Fair'], timezone: PACIFIC, surfaces: DIRT, typicalDistances: SPRINT_DISTANCES },
+    { codes: ['EMD'], name: 'Emerald Downs', timezone: PACIFIC, surfaces: DIRT, typicalDistances: [5, 5.5, 6, 6.5, 8, 8.5] }
+  ]),
+
+  ...entries('CA', [
+    { codes: ['WO'], name: 'Woodbine', timezone: 'America/Toronto', surfaces: SYNTHETIC_TURF, typicalDistances: [5, 6, 6.5, 7, 8, 8.5, 9, 10] },
+    { codes: ['FE'], name: 'Fort Erie', timezone: 'America/Toronto', surfaces: DIRT_TURF, typicalDistances: [5, 6, 8, 8.5] },
+    { codes: ['HST'], name: 'Hastings', aliases: ['Hastings Racecourse'], timezone: 'America/Vancouver', surfaces: DIRT, typicalDistances: [5.5, 6.5, 8, 8.5, 9] },
+    { codes: ['NP'], name: 'Century Mile', timezone: 'America/Edmonton', surfaces: DIRT, typicalDistances: [5.5, 6, 6.5, 8, 8.5] }
+  ]),
+
+  ...entries('GB', [
+    { codes: ['ASC'], name: 'Ascot', aliases: ['Royal Ascot'], timezone: 'Europe/London', surfaces: TURF, typicalDistances: EUROPEAN_DISTANCES },
+    { codes: ['EPS'], name: 'Epsom Downs', aliases: ['Epsom'], timezone: 'Europe/London', surfaces: TURF, typicalDistances: [5, 6, 7, 8.5, 10, 12] },
+    { codes: ['NMK', 'NEW'], name: 'Newmarket', timezone: 'Europe/London', surfaces: TURF, typicalDistances: EUROPEAN_DISTANCES },
+    { codes: ['YOR'], name: 'York', timezone: 'Europe/London', surfaces: TURF, typicalDistances: [5, 6, 7, 8, 10.5, 12, 14] },
+    { codes: ['GDW'], name: 'Goodwood', aliases: ['Glorious Goodwood'], timezone: 'Europe/London', surfaces: TURF, typicalDistances: [5, 6, 7, 8, 10, 12, 16] },
+    { codes: ['DON'], name: 'Doncaster', timezone: 'Europe/London', surfaces: TURF, typicalDistances: [5, 6, 7, 8, 10, 12, 14.5] }
+  ]),
+
+  ...entries('IE', [
+    { codes: ['CUR'], name: 'Curragh', aliases: ['The Curragh'], timezone: 'Europe/Dublin', surfaces: TURF, typicalDistances: EUROPEAN_DISTANCES },
+    { codes: ['LEO'], name: 'Leopardstown', timezone: 'Europe/Dublin', surfaces: TURF, typicalDistances: [7, 8, 10, 12, 14] }
+  ]),
+
+  ...entries('FR', [
+    { codes: ['LCH', 'PLC'], name: 'ParisLongchamp', aliases: ['Longchamp'], timezone: 'Europe/Paris', surfaces: TURF, typicalDistances: [5, 7, 8, 10, 10.5, 12, 15] },
+    { codes: ['CHY'], name: 'Chantilly', timezone: 'Europe/Paris', surfaces: ['turf', 'synthetic'], typicalDistances: [6, 7, 8, 10, 10.5, 12] },
+    { codes: ['DEA'], name: 'Deauville', timezone: 'Europe/Paris', surfaces: ['turf', 'synthetic'], typicalDistances: [6, 6.5, 7, 8, 10, 12] }
+  ]),
+
+  ...entries('AE', [
+    { codes: ['MEY'], name: 'Meydan', timezone: 'Asia/Dubai', surfaces: DIRT_TURF, typicalDistances: [6, 7, 8, 9, 10, 12] }
+  ]),
+
+  ...entries('SA', [
+    { codes: ['KSA'], name: 'King Abdulaziz', aliases: ['Riyadh', 'King Abdulaziz Racetrack'], timezone: 'Asia/Riyadh', surfaces: DIRT_TURF, typicalDistances: [6, 8, 10, 15] }
+  ]),
+
+  ...entries('JP', [
+    { codes: ['TOK'], name: 'Tokyo', aliases: ['Tokyo Racecourse'], timezone: 'Asia/Tokyo', surfaces: DIRT_TURF, typicalDistances: [7, 8, 9, 10, 12] },
+    { codes: ['KYO'], name: 'Kyoto', aliases: ['Kyoto Racecourse'], timezone: 'Asia/Tokyo', surfaces: DIRT_TURF, typicalDistances: [6, 7, 8, 9, 10, 11, 15] },
+    { codes: ['NAK'], name: 'Nakayama', timezone: 'Asia/Tokyo', surfaces: DIRT_TURF, typicalDistances: [6, 8, 9, 10, 12.5] }
+  ]),
+
+  ...entries('HK', [
+    { codes: ['ST'], name: 'Sha Tin', timezone: 'Asia/Hong_Kong', surfaces: ['turf', 'dirt'], typicalDistances: [5, 6, 7, 8, 9, 10, 12] },
+    { codes: ['HV'], name: 'Happy Valley', timezone: 'Asia/Hong_Kong', surfaces: TURF, typicalDistances: [5, 6, 8, 9, 11] }
+  ]),
+
+  ...entries('AU', [
+    { codes: ['FLM'], name: 'Flemington', timezone: 'Australia/Melbourne', surfaces: TURF, typicalDistances: [5, 6, 7, 8, 10, 12, 16] },
+    { codes: ['RAN'], name: 'Randwick', aliases: ['Royal Randwick'], timezone: 'Australia/Sydney', surfaces: TURF, typicalDistances: [5.5, 6, 7, 8, 10, 12] }
+  ])
+];
@@ -0,0 +1,2 @@
+export { TRACKS } from './data';
+export * from './registry';
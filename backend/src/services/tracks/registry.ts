@@ -0,0 +1,117 @@
+import { Surface, Track } from '@railbird/shared';
+import { TRACKS } from './data';
+
+export interface TrackFilter {
+  country?: string;
+  surface?: Surface;
+  // Matches name, aliases or codes
+  search?: string;
+}
+
+// Program headers name the track within the first few lines
+const HEADER_LINES = 15;
+
+const normalizeName = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A name inside a longer place ("New York") or a race title ("Belmont Stakes",
+// "Churchill Downs Stakes") is not the track
+const PLACE_PREFIX = '(?<!\\b(?:new|north|south|east|west)\\s+)';
+const RACE_TITLE_SUFFIX = '(?!(?:\\s+\\w+)?\\s+(?:stakes|handicap|derby|oaks|futurity|invitational)\\b)';
+
+interface NameMention {
+  line: number;
+  index: number;
+  prefix: boolean;
+  alias: boolean;
+  length: number;
+  track: Track;
+}
+
+export class TrackRegistry {
+  private byCode = new Map<string, Track>();
+  private byName = new Map<string, Track>();
+  private namePatterns: { pattern: RegExp; length: number; alias: boolean; track: Track }[] = [];
+
+  constructor(private readonly tracks: Track[] = TRACKS) {
+    for (const track of tracks) {
+      track.codes.forEach(code => this.byCode.set(code.toUpperCase(), track));
+
+      for (const name of [track.name, ...(track.aliases || [])]) {
+        this.byName.set(normalizeName(name), track);
+        this.namePatterns.push({
+          pattern: new RegExp(`${PLACE_PREFIX}\\b${escapeRegExp(name).replace(/\s+/g, '\\s+')}\\b${RACE_TITLE_SUFFIX}`, 'i'),
+          length: name.length,
+          alias: name !== track.name,
+          track
+        });
+      }
+    }
+  }
+
+  getTracks(filter: TrackFilter = {}): Track[] {
+    const search = filter.search ? normalizeName(filter.search) : '';
+
+    return this.tracks.filter(track => {
+      if (filter.country && track.country !== filter.country.toUpperCase()) return false;
+      if (filter.surface && !track.surfaces.includes(filter.surface)) return false;
+      if (search) {
+        const names = [track.name, ...(track.aliases || [])].map(normalizeName);
+        const codes = track.codes.map(code => code.toLowerCase());
+        return names.some(name => name.includes(search)) || codes.includes(search);
+      }
+      return true;
+    });
+  }
+
+  // Codes are matched case-insensitively: charts print "KEE", DRF lines print "Kee"
+  findByCode(code: string): Track | null {
+    return this.byCode.get(code.trim().toUpperCase()) || null;
+  }
+
+  findByName(name: string): Track | null {
+    return this.byName.get(normalizeName(name)) || null;
+  }
+
+  // Finds the track named in a program header. A name that opens a line wins, then a
+  // full track name over an alias, then the earliest mention, and the longer name on a
+  // tie, so "Belmont at Saratoga" beats "Belmont".
+  findInText(text: string): Track | null {
+    const lines = text.split('\n');
+    return this.findBestMention(lines.slice(0, HEADER_LINES)) || this.findBestMention(lines);
+  }
+
+  // Canonical code for a past performance track token; unknown codes pass through uppercased
+  normalizeCode(code: string): string {
+    return this.findByCode(code)?.code || code.trim().toUpperCase();
+  }
+
+  private findBestMention(lines: string[]): Track | null {
+    let best: NameMention | null = null;
+
+    for (let line = 0; line < lines.length; line++) {
+      const trimmed = lines[line].trim();
+      for (const { pattern, length, alias, track } of this.namePatterns) {
+        const match = pattern.exec(trimmed);
+        if (!match) continue;
+
+        const mention: NameMention = { line, index: match.index, prefix: match.index === 0, alias, length, track };
+        if (!best || this.outranks(mention, best)) best = mention;
+      }
+    }
+
+    return best?.track || null;
+  }
+
+  private outranks(a: NameMention, b: NameMention): boolean {
+    if (a.prefix !== b.prefix) return a.prefix;
+    if (a.alias !== b.alias) return !a.alias;
+    if (a.line !== b.line) return a.line < b.line;
+    if (a.index !== b.index) return a.index < b.index;
+    return a.length > b.length;
+  }
+}
+
+export const trackRegistry = new TrackRegistry();
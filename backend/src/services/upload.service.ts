@@ -0,0 +1,77 @@
+import { FileUpload, FileUploadStatus } from '@railbird/shared';
+import { createDocumentStore, DocumentStore, ListResult } from './storage';
+import { logger } from '../utils/logger';
+
+export class UploadService {
+  private store: DocumentStore<FileUpload>;
+
+  constructor(store?: DocumentStore<FileUpload>) {
+    this.store = store || createDocumentStore<FileUpload>('uploads');
+  }
+
+  async createUpload(fileUpload: FileUpload): Promise<FileUpload> {
+    fileUpload.statusHistory = [{
+      status: fileUpload.status,
+      timestamp: fileUpload.uploadedAt
+    }];
+
+    return this.store.put(fileUpload);
+  }
+
+  // Records a status change on the upload and persists the updated record
+  async transition(
+    fileUpload: FileUpload,
+    status: FileUploadStatus,
+    message?: string,
+    changes: Partial<FileUpload> = {}
+  ): Promise<FileUpload> {
+    const now = new Date();
+
+    Object.assign(fileUpload, changes);
+    fileUpload.status = status;
+    fileUpload.statusHistory = [
+      ...(fileUpload.statusHistory || []),
+      { status, timestamp: now, message }
+    ];
+
+    if (status === 'processing') {
+      fileUpload.processingStartedAt = now;
+    }
+
+    if (status === 'completed' || status === 'failed' || status === 'cancelled') {
+      fileUpload.processedAt = now;
+      if (fileUpload.processingStartedAt) {
+        fileUpload.processingTimeMs = now.getTime() - fileUpload.processingStartedAt.getTime();
+      }
+    }
+
+    await this.store.put(fileUpload);
+    logger.info(`Upload ${fileUpload.id} is now ${status}`);
+
+    return fileUpload;
+  }
+
+  async getUpload(fileId: string, userId?: string): Promise<FileUpload | null> {
+    const fileUpload = await this.store.get(fileId);
+    if (!fileUpload) return null;
+    if (userId && fileUpload.userId !== userId) return null;
+    return fileUpload;
+  }
+
+  async getUploadsByStatus(status: FileUploadStatus): Promise<FileUpload[]> {
+    const { items } = await this.store.list({ where: { status }, orderBy: 'uploadedAt', direction: 'asc' });
+    return items;
+  }
+
+  async getUserUploads(userId: string, page: number, limit: number): Promise<ListResult<FileUpload>> {
+    return this.store.list({
+      where: { userId },
+      orderBy: 'uploadedAt',
+      direction: 'desc',
+      offset: (page - 1) * limit,
+      limit
+    });
+  }
+}
+
+export const uploadService = new UploadService();
@@ -0,0 +1,202 @@
+import {
+  AnalysisInsight,
+  Horse,
+  HorseValue,
+  Race,
+  RaceValueAnalysis,
+  ValueVerdict,
+  WinEstimateBasis,
+  formatOdds,
+  getProgramNumber,
+  getRunners,
+  normalizeProbabilities,
+  oddsToImpliedProbability,
+  parseOdds,
+  probabilityToOdds
+} from '@railbird/shared';
+import { config } from '../config';
+import { figureService } from './figures.service';
+
+export interface ValueOptions {
+  edgeThreshold?: number;
+  // Win probabilities by program number, e.g. from a later handicapping model;
+  // replaces the built-in estimate when given
+  probabilities?: Record<string, number>;
+}
+
+interface WinEstimate {
+  probabilities: number[];
+  basis: WinEstimateBasis;
+}
+
+// Speed figure points that make a horse e (~2.7) times as likely to win
+const RATING_SCALE = 5;
+// Horses without a figure are rated this far below the weakest figure in the field
+const UNRATED_PENALTY = 5;
+
+// Turns win probabilities into a fair odds line and compares it with the posted prices
+export class ValueService {
+  analyzeRace(race: Race, options: ValueOptions = {}): RaceValueAnalysis {
+    const edgeThreshold = options.edgeThreshold ?? config.value.edgeThreshold;
+    const runners = getRunners(race);
+    const estimate = options.probabilities
+      ? this.fromCustomProbabilities(runners, options.probabilities)
+      : this.estimateWinProbabilities(runners);
+
+    // Market probabilities are normalized per price source so takeout does not count against a horse
+    const oddsMarket = this.marketProbabilities(runners.map(horse => horse.odds));
+    const morningLineMarket = this.marketProbabilities(runners.map(horse => horse.morningLine));
+
+    const horses = runners.map((horse, index): HorseValue => {
+      const winProbability = estimate.probabilities[index];
+      const fairOdds = probabilityToOdds(winProbability);
+      const liveOdds = horse.odds ? parseOdds(horse.odds) : null;
+      const offeredOdds = liveOdds ?? (horse.morningLine ? parseOdds(horse.morningLine) : null);
+      const marketProbability = liveOdds !== null ? oddsMarket[index] : morningLineMarket[index];
+      const edge = offeredOdds !== null ? winProbability * (offeredOdds + 1) - 1 : undefined;
+
+      return {
+        horseId: horse.id,
+        programNumber: getProgramNumber(horse),
+        name: horse.name,
+        winProbability: this.round(winProbability),
+        fairOdds: this.round(fairOdds),
+        fairLine: formatOdds(fairOdds),
+        morningLine: horse.morningLine,
+        odds: horse.odds,
+        offeredOdds: offeredOdds ?? undefined,
+        marketProbability: marketProbability !== undefined ? this.round(marketProbability) : undefined,
+        edge: edge !== undefined ? this.round(edge) : undefined,
+        verdict: this.getVerdict(edge, edgeThreshold)
+      };
+    });
+
+    return {
+      raceId: race.id,
+      basis: estimate.basis,
+      edgeThreshold,
+      horses,
+      insights: this.buildInsights(horses, estimate.basis, edgeThreshold),
+      generatedAt: new Date()
+    };
+  }
+
+  // Blends a speed figure rating with the morning line, which is the track
+  // handicapper's own estimate, and falls back to whichever is available
+  private estimateWinProbabilities(runners: Horse[]): WinEstimate {
+    if (runners.length === 0) return { probabilities: [], basis: 'uniform' };
+
+    const ratings = runners.map(horse => figureService.getRating(horse));
+    const morningLine = this.marketProbabilities(runners.map(horse => horse.morningLine));
+    const hasRatings = ratings.some(rating => rating !== null);
+    const hasMorningLine = morningLine.some(probability => probability !== undefined);
+
+    if (!hasRatings && !hasMorningLine) {
+      return { probabilities: runners.map(() => 1 / runners.length), basis: 'uniform' };
+    }
+
+    const morningLineProbabilities = this.fillMissing(morningLine);
+    if (!hasRatings) return { probabilities: morningLineProbabilities, basis: 'morning-line' };
+
+    const rated = ratings.filter((rating): rating is number => rating !== null);
+    const floor = Math.min(...rated) - UNRATED_PENALTY;
+    const strengths = ratings.map(rating => Math.exp(((rating ?? floor) - floor) / RATING_SCALE));
+    const ratingProbabilities = normalizeProbabilities(strengths);
+
+    if (!hasMorningLine) return { probabilities: ratingProbabilities, basis: 'ratings' };
+
+    const weight = config.value.ratingWeight;
+    return {
+      probabilities: normalizeProbabilities(ratingProbabilities.map((probability, index) =>
+        weight * probability + (1 - weight) * morningLineProbabilities[index]
+      )),
+      basis: 'ratings'
+    };
+  }
+
+  private fromCustomProbabilities(runners: Horse[], probabilities: Record<string, number>): WinEstimate {
+    const values = runners.map(horse => {
+      const value = probabilities[getProgramNumber(horse)];
+      return typeof value === 'number' && value > 0 ? value : undefined;
+    });
+    return { probabilities: this.fillMissing(values), basis: 'custom' };
+  }
+
+  private marketProbabilities(prices: (string | undefined)[]): (number | undefined)[] {
+    const implied = prices.map(price => {
+      const odds = price ? parseOdds(price) : null;
+      return odds !== null ? oddsToImpliedProbability(odds) : undefined;
+    });
+
+    const priced = implied.filter((probability): probability is number => probability !== undefined);
+    if (priced.length === 0) return implied;
+
+    const total = priced.reduce((sum, probability) => sum + probability, 0);
+    return implied.map(probability => probability !== undefined ? probability / total : undefined);
+  }
+
+  // Unpriced horses get the average share, then the field is renormalized
+  private fillMissing(probabilities: (number | undefined)[]): number[] {
+    const known = probabilities.filter((probability): probability is number => probability !== undefined);
+    const fallback = known.length > 0
+      ? known.reduce((sum, probability) => sum + probability, 0) / known.length
+      : 1 / probabilities.length;
+    return normalizeProbabilities(probabilities.map(probability => probability ?? fallback));
+  }
+
+  private getVerdict(edge: number | undefined, edgeThreshold: number): ValueVerdict {
+    if (edge === undefined) return 'unpriced';
+    if (edge >= edgeThreshold) return 'overlay';
+    if (edge <= -edgeThreshold) return 'underlay';
+    return 'fair';
+  }
+
+  private buildInsights(horses: HorseValue[], basis: WinEstimateBasis, edgeThreshold: number): AnalysisInsight[] {
+    const describe = (horse: HorseValue) =>
+      `#${horse.programNumber} ${horse.name} at ${formatOdds(horse.offeredOdds!)} (fair ${horse.fairLine})`;
+
+    const confidenceFor = (picked: HorseValue[]): AnalysisInsight['confidence'] => {
+      if (basis === 'uniform' || basis === 'morning-line') return 'low';
+      const strongest = Math.max(...picked.map(horse => Math.abs(horse.edge!)));
+      return strongest >= edgeThreshold * 2 ? 'high' : 'medium';
+    };
+
+    const insights: AnalysisInsight[] = [];
+    const overlays = horses.filter(horse => horse.verdict === 'overlay').sort((a, b) => b.edge! - a.edge!);
+    const underlays = horses.filter(horse => horse.verdict === 'underlay').sort((a, b) => a.edge! - b.edge!);
+
+    if (overlays.length > 0) {
+      insights.push({
+        type: 'value',
+        confidence: confidenceFor(overlays),
+        summary: `Overlay${overlays.length > 1 ? 's' : ''}: ${overlays.map(describe).join(', ')}`,
+        details: overlays.map(horse =>
+          `${describe(horse)} returns ${Math.round(horse.edge! * 100)}% over fair value on a ` +
+          `${Math.round(horse.winProbability * 100)}% win chance.`
+        ).join(' '),
+        affectedHorses: overlays.map(horse => horse.programNumber)
+      });
+    }
+
+    if (underlays.length > 0) {
+      insights.push({
+        type: 'value',
+        confidence: confidenceFor(underlays),
+        summary: `Underlay${underlays.length > 1 ? 's' : ''}: ${underlays.map(describe).join(', ')}`,
+        details: underlays.map(horse =>
+          `${describe(horse)} is bet ${Math.round(-horse.edge! * 100)}% below fair value; ` +
+          'the price does not pay for the risk.'
+        ).join(' '),
+        affectedHorses: underlays.map(horse => horse.programNumber)
+      });
+    }
+
+    return insights;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
+
+export const valueService = new ValueService();
@@ -90,8 +90,11 @@ export const config = {
 export const endpoints = {
   // Upload endpoints
   uploadRaceProgram: '/upload/race-program',
+  uploadRaceProgramPages: '/upload/race-program/pages',
   getUploadStatus: (fileId: string) => `/upload/status/${fileId}`,
   getUploadHistory: '/upload/history',
+  cancelUpload: (fileId: string) => `/upload/${fileId}`,
+  reprocessUpload: (fileId: string) => `/upload/${fileId}/reprocess`,
   
   // Chat endpoints
   sendMessage: '/chat/message',
@@ -101,6 +104,16 @@ export const endpoints = {
   deleteSession: (sessionId: string) => `/chat/session/${sessionId}`,
   quickInsight: '/chat/quick-insight',
   
+  // Track endpoints
+  getTracks: '/tracks',
+  getTrack: (code: string) => `/tracks/${code}`,
+  
+  // Race endpoints
+  getRaceValue: (raceId: string) => `/races/${raceId}/value`,
+  getRaceFigures: (raceId: string) => `/races/${raceId}/figures`,
+  getRaceClass: (raceId: string) => `/races/${raceId}/class`,
+  getRaceForm: (raceId: string) => `/races/${raceId}/form`,
+  
   // Health check
   health: '/health',
 };
\ No newline at end of file
@@ -101,6 +101,11 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
         text1: 'Processing Failed',
         text2: message || 'Unable to process your race program',
       });
+    } else if (status === 'cancelled') {
+      setIsUploading(false);
+      setUploadProgress(0);
+    } else if (status === 'queued') {
+      setUploadProgress(25);
     } else if (status === 'processing') {
       setUploadProgress(50);
     }
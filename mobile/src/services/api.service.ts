@@ -1,7 +1,7 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { config, endpoints } from '../constants/config';
-import { ApiResponse, ChatMessage, ChatSession, FileUpload } from '@railbird/shared';
+import { ApiResponse, ChatMessage, ChatSession, FileUpload, RaceClassAnalysis, RaceFigures, RaceFormAnalysis, RaceValueAnalysis, SpeedFigureScale, Track } from '@railbird/shared';
 
 class ApiService {
   private client: AxiosInstance;
@@ -123,6 +123,31 @@ class ApiService {
     }
   }
 
+  // Photographed pages of one program, assembled into a single race card
+  async uploadRaceProgramPages(files: any[]): Promise<ApiResponse<FileUpload>> {
+    try {
+      const formData = new FormData();
+      files.forEach((file, index) => {
+        formData.append('pages', {
+          uri: file.uri,
+          type: file.mimeType || 'image/jpeg',
+          name: file.name || `race-program-page-${index + 1}.jpg`,
+        } as any);
+      });
+
+      const response = await this.client.post(endpoints.uploadRaceProgramPages, formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+        timeout: config.timeouts.upload,
+      });
+
+      return response.data;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
   async getUploadStatus(fileId: string): Promise<ApiResponse<any>> {
     return this.get(endpoints.getUploadStatus(fileId));
   }
@@ -131,11 +156,20 @@ class ApiService {
     return this.get(endpoints.getUploadHistory);
   }
 
+  async cancelUpload(fileId: string): Promise<ApiResponse<FileUpload>> {
+    return this.delete(endpoints.cancelUpload(fileId));
+  }
+
+  async reprocessUpload(fileId: string): Promise<ApiResponse<FileUpload>> {
+    return this.post(endpoints.reprocessUpload(fileId));
+  }
+
   // Chat methods
-  async sendMessage(message: string, sessionId?: string, raceId?: string): Promise<ApiResponse<any>> {
+  async sendMessage(message: string, sessionId?: string, raceCardId?: string, raceId?: string): Promise<ApiResponse<any>> {
     return this.post(endpoints.sendMessage, {
       message,
       sessionId,
+      raceCardId,
       raceId,
     });
   }
@@ -160,13 +194,46 @@ class ApiService {
     return this.delete(endpoints.deleteSession(sessionId));
   }
 
-  async getQuickInsight(question: string, raceId: string): Promise<ApiResponse<any>> {
+  async getQuickInsight(question: string, raceCardId: string, raceId: string): Promise<ApiResponse<any>> {
     return this.post(endpoints.quickInsight, {
       question,
+      raceCardId,
       raceId,
     });
   }
 
+  // Track methods
+  async getTracks(filter: { country?: string; surface?: string; q?: string } = {}): Promise<ApiResponse<Track[]>> {
+    const query = Object.entries(filter)
+      .filter(([, value]) => value)
+      .map(([key, value]) => `${key}=${encodeURIComponent(value as string)}`)
+      .join('&');
+    return this.get(query ? `${endpoints.getTracks}?${query}` : endpoints.getTracks);
+  }
+
+  async getTrack(code: string): Promise<ApiResponse<Track>> {
+    return this.get(endpoints.getTrack(code));
+  }
+
+  // Race methods
+  async getRaceValue(raceId: string, edge?: number): Promise<ApiResponse<RaceValueAnalysis>> {
+    const url = endpoints.getRaceValue(raceId);
+    return this.get(edge !== undefined ? `${url}?edge=${edge}` : url);
+  }
+
+  async getRaceFigures(raceId: string, scale?: SpeedFigureScale): Promise<ApiResponse<RaceFigures>> {
+    const url = endpoints.getRaceFigures(raceId);
+    return this.get(scale ? `${url}?scale=${scale}` : url);
+  }
+
+  async getRaceClass(raceId: string): Promise<ApiResponse<RaceClassAnalysis>> {
+    return this.get(endpoints.getRaceClass(raceId));
+  }
+
+  async getRaceForm(raceId: string): Promise<ApiResponse<RaceFormAnalysis>> {
+    return this.get(endpoints.getRaceForm(raceId));
+  }
+
   // Health check
   async healthCheck(): Promise<ApiResponse<any>> {
     return this.get(endpoints.health);
@@ -0,0 +1,69 @@
+import {
+  formatDistance,
+  getDistanceCategory,
+  getDistanceChange,
+  isSameDistance,
+  parseDistance
+} from './distance';
+
+describe('parseDistance', () => {
+  it.each([
+    ['6 Furlongs', 6, '6 Furlongs'],
+    ['6½f', 6.5, '6 1/2 Furlongs'],
+    ['SIX AND ONE HALF FURLONGS', 6.5, '6 1/2 Furlongs'],
+    ['1 1/16 Miles', 8.5, '1 1/16 Miles'],
+    ['One Mile and One Sixteenth', 8.5, '1 1/16 Miles'],
+    ['1m70y', 8 + 70 / 220, '1 Mile 70 Yards'],
+    ['1 Mile and 70 Yards', 8 + 70 / 220, '1 Mile 70 Yards'],
+    ['1 1/4 Miles', 10, '1 1/4 Miles']
+  ])('reads %s', (text, furlongs, formatted) => {
+    const distance = parseDistance(text)!;
+
+    expect(distance.furlongs).toBeCloseTo(furlongs);
+    expect(distance.text).toBe(formatted);
+  });
+
+  it('keeps yards and metres in their own unit', () => {
+    expect(parseDistance('350 Yards')).toMatchObject({ value: 350, unit: 'yards', text: '350 Yards' });
+    expect(parseDistance('1200m')).toMatchObject({ value: 1200, unit: 'meters', text: '1200 Meters' });
+    expect(parseDistance('1200m')!.furlongs).toBeCloseTo(5.97, 2);
+  });
+
+  it.each(['About 7 1/2 Furlongs', 'abt 7½f', 'a7f'])('marks %s as an about distance', text => {
+    const distance = parseDistance(text)!;
+
+    expect(distance.about).toBe(true);
+    expect(distance.text.startsWith('About ')).toBe(true);
+  });
+
+  it.each(['', 'Purse $25,000', '0 Furlongs', '40 Miles', '3 Yards'])('rejects %p', text => {
+    expect(parseDistance(text)).toBeNull();
+  });
+});
+
+describe('formatDistance', () => {
+  it('rounds sprints to the half furlong', () => {
+    expect(formatDistance({ value: 5.98, unit: 'furlongs', furlongs: 5.98 })).toBe('6 Furlongs');
+  });
+});
+
+describe('distance comparisons', () => {
+  const sixFurlongs = parseDistance('6 Furlongs')!;
+  const metricSprint = parseDistance('1200m')!;
+  const mile = parseDistance('1 Mile')!;
+
+  it('treats metric rounding as the same trip', () => {
+    expect(isSameDistance(sixFurlongs, metricSprint)).toBe(true);
+    expect(getDistanceChange(metricSprint, sixFurlongs)).toBe('same');
+  });
+
+  it('splits sprints from routes at a mile', () => {
+    expect(getDistanceCategory(parseDistance('7 1/2 Furlongs')!)).toBe('sprint');
+    expect(getDistanceCategory(mile)).toBe('route');
+  });
+
+  it('describes a change of trip from the earlier race', () => {
+    expect(getDistanceChange(sixFurlongs, mile)).toBe('stretching-out');
+    expect(getDistanceChange(mile, sixFurlongs)).toBe('cutting-back');
+  });
+});
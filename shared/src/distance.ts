@@ -0,0 +1,174 @@
+import { Distance, DistanceCategory, DistanceChange, DistanceUnit } from './types';
+
+export const YARDS_PER_FURLONG = 220;
+export const METERS_PER_FURLONG = 201.168;
+
+// Races shorter than a mile are sprints
+export const ROUTE_MIN_FURLONGS = 8;
+
+// Two distances within 22 yards are the same trip, which absorbs metric rounding (1200m vs 6f)
+const SAME_DISTANCE_TOLERANCE = 0.1;
+
+// Nothing shorter than a quarter horse dash or longer than a marathon is a race distance
+const MIN_FURLONGS = 0.5;
+const MAX_FURLONGS = 32;
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '½': '1/2', '¼': '1/4', '¾': '3/4', '⅛': '1/8', '⅜': '3/8', '⅝': '5/8', '⅞': '7/8'
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12
+};
+
+const FRACTION_WORDS: Record<string, number> = {
+  half: 2, halves: 2, quarter: 4, quarters: 4,
+  eighth: 8, eighths: 8, sixteenth: 16, sixteenths: 16
+};
+
+const DISTANCE_PATTERN = new RegExp(
+  '(\\d+(?:\\.\\d+)?)(?:\\s*(\\d+)\\/(\\d+))?\\s*' +
+  '(furlongs?|fur|f|miles?|mi|m|yards?|yds?|y|meters?|metres?|mtrs?)\\b' +
+  '(?:\\s*(?:and\\s+)?(\\d{2,3})\\s*(?:yards?|yds?|y)\\b)?'
+);
+
+const ABOUT_PATTERN = /(?:\babout\b|\babt\b|(?:^|\s)a(?=\d)|^\*)/;
+
+// Rewrites printed and spelled-out distances into "<whole> <n/d> <unit>" form
+const normalizeDistanceText = (text: string): string => {
+  let normalized = text.toLowerCase();
+
+  for (const [symbol, fraction] of Object.entries(UNICODE_FRACTIONS)) {
+    normalized = normalized.split(symbol).join(` ${fraction}`);
+  }
+
+  // "one sixteenth", "a half", "three eighths"
+  normalized = normalized.replace(
+    /\b(a|one|three|five|seven)\s+(half|halves|quarters?|eighths?|sixteenths?)\b/g,
+    (_, count: string, word: string) => `${count === 'a' ? 1 : NUMBER_WORDS[count]}/${FRACTION_WORDS[word]}`
+  );
+
+  normalized = normalized.replace(
+    new RegExp(`\\b(${Object.keys(NUMBER_WORDS).join('|')})\\b`, 'g'),
+    word => String(NUMBER_WORDS[word])
+  );
+
+  // "1 mile and 1/16" and "6 and 1/2 furlongs" carry the fraction after the unit or an "and"
+  normalized = normalized
+    .replace(/(\d+)\s*(miles?)\s+and\s+(\d+\/\d+)/g, '$1 $3 $2')
+    .replace(/(\d+)\s+and\s+(\d+\/\d+)/g, '$1 $2')
+    // "1m70" is a mile and seventy yards
+    .replace(/(\d)m(\d{2,3})y?\b/g, '$1m $2y');
+
+  return normalized;
+};
+
+const resolveUnit = (unit: string, whole: number): 'furlongs' | 'miles' | DistanceUnit => {
+  if (unit.startsWith('f')) return 'furlongs';
+  if (unit.startsWith('y')) return 'yards';
+  if (unit.startsWith('mi')) return 'miles';
+  if (unit.startsWith('met') || unit.startsWith('mtr')) return 'meters';
+  // A bare "m" is metres for "1200m" and miles for "1m"
+  return whole >= 100 ? 'meters' : 'miles';
+};
+
+// Parses a carded distance such as "6 Furlongs", "6½f", "1 1/16 Miles", "1m70y",
+// "About 7 1/2 Furlongs", "1200m" or "SIX AND ONE HALF FURLONGS"
+export const parseDistance = (text: string): Distance | null => {
+  if (!text) return null;
+
+  const normalized = normalizeDistanceText(text);
+  const match = normalized.match(DISTANCE_PATTERN);
+  if (!match) return null;
+
+  const whole = parseFloat(match[1]);
+  const fraction = match[2] && match[3] && Number(match[3]) > 0 ? Number(match[2]) / Number(match[3]) : 0;
+  const extraYards = match[5] ? Number(match[5]) : 0;
+  const unit = resolveUnit(match[4], whole);
+  const amount = whole + fraction;
+
+  let distance: Omit<Distance, 'text'>;
+  switch (unit) {
+    case 'miles':
+      distance = { value: amount * 8 + extraYards / YARDS_PER_FURLONG, unit: 'furlongs', furlongs: 0 };
+      distance.furlongs = distance.value;
+      break;
+    case 'yards':
+      distance = { value: amount, unit: 'yards', furlongs: amount / YARDS_PER_FURLONG };
+      break;
+    case 'meters':
+      distance = { value: amount, unit: 'meters', furlongs: amount / METERS_PER_FURLONG };
+      break;
+    default:
+      distance = { value: amount + extraYards / YARDS_PER_FURLONG, unit: 'furlongs', furlongs: 0 };
+      distance.furlongs = distance.value;
+  }
+
+  if (distance.furlongs < MIN_FURLONGS || distance.furlongs > MAX_FURLONGS) return null;
+
+  const about = ABOUT_PATTERN.test(normalized.slice(0, match.index! + 1));
+  if (about) distance.about = true;
+
+  return { ...distance, text: formatDistance(distance) };
+};
+
+const formatFraction = (numerator: number, denominator: number): string => {
+  let n = numerator;
+  let d = denominator;
+  while (n % 2 === 0 && d % 2 === 0) {
+    n /= 2;
+    d /= 2;
+  }
+  return `${n}/${d}`;
+};
+
+// Prints a distance the way programs do: furlongs under a mile, miles and sixteenths above
+export const formatDistance = (distance: Omit<Distance, 'text'>): string => {
+  const prefix = distance.about ? 'About ' : '';
+
+  if (distance.unit === 'yards') return `${prefix}${Math.round(distance.value)} Yards`;
+  if (distance.unit === 'meters') return `${prefix}${Math.round(distance.value)} Meters`;
+
+  const furlongs = distance.furlongs;
+
+  if (furlongs < ROUTE_MIN_FURLONGS) {
+    const whole = Math.floor(furlongs);
+    const halves = Math.round((furlongs - whole) * 2);
+    if (halves === 2) return `${prefix}${whole + 1} Furlongs`;
+    return `${prefix}${whole}${halves ? ' 1/2' : ''} Furlongs`;
+  }
+
+  const miles = Math.floor(furlongs / 8);
+  const remainder = furlongs - miles * 8;
+  const sixteenths = remainder * 2;
+  const mileText = `${miles} Mile${miles === 1 ? '' : 's'}`;
+
+  if (remainder < 0.01) return `${prefix}${mileText}`;
+
+  if (Math.abs(sixteenths - Math.round(sixteenths)) < 0.01) {
+    const fraction = formatFraction(Math.round(sixteenths), 16);
+    return `${prefix}${miles} ${fraction} Miles`;
+  }
+
+  return `${prefix}${mileText} ${Math.round(remainder * YARDS_PER_FURLONG)} Yards`;
+};
+
+export const isSameDistance = (
+  a: Distance,
+  b: Distance,
+  tolerance: number = SAME_DISTANCE_TOLERANCE
+): boolean => Math.abs(a.furlongs - b.furlongs) <= tolerance;
+
+export const getDistanceCategory = (distance: Distance): DistanceCategory =>
+  distance.furlongs < ROUTE_MIN_FURLONGS ? 'sprint' : 'route';
+
+// How today's distance compares with a previous race, e.g. a sprinter stretching out to a route
+export const getDistanceChange = (
+  from: Distance,
+  to: Distance,
+  tolerance: number = SAME_DISTANCE_TOLERANCE
+): DistanceChange => {
+  if (isSameDistance(from, to, tolerance)) return 'same';
+  return to.furlongs > from.furlongs ? 'stretching-out' : 'cutting-back';
+};
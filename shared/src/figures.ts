@@ -0,0 +1,59 @@
+import { Horse, PastPerformance, SpeedFigureScale } from './types';
+
+// Running lines without a recorded scale are read as Beyers, the most widely printed figure
+export const DEFAULT_FIGURE_SCALE: SpeedFigureScale = 'beyer';
+
+// Approximate linear equivalences to the Beyer scale (beyer = slope * figure + offset),
+// fitted over the 60-110 Beyer range where most figures fall
+const BEYER_EQUIVALENTS: Record<SpeedFigureScale, { slope: number; offset: number }> = {
+  'beyer': { slope: 1, offset: 0 },
+  'in-house': { slope: 1, offset: 0 },
+  // Brisnet speed ratings run about eight points above Beyers
+  'brisnet': { slope: 1, offset: -8 },
+  // Equibase figures spread a little wider than Beyers
+  'equibase': { slope: 0.9, offset: 1 },
+  // Timeform US figures spread much wider: 125 is roughly a 105 Beyer
+  'timeform': { slope: 0.8, offset: 5 }
+};
+
+export const SPEED_FIGURE_SCALES = Object.keys(BEYER_EQUIVALENTS) as SpeedFigureScale[];
+
+// Headline figures on Horse.speedFigures, by the scale each is printed on
+const HEADLINE_SCALES: [keyof Horse['speedFigures'], SpeedFigureScale][] = [
+  ['beyer', 'beyer'],
+  ['brisnet', 'brisnet'],
+  ['equibase', 'equibase'],
+  ['timeform', 'timeform']
+];
+
+export const convertFigure = (figure: number, from: SpeedFigureScale, to: SpeedFigureScale): number => {
+  if (from === to) return figure;
+  const source = BEYER_EQUIVALENTS[from];
+  const target = BEYER_EQUIVALENTS[to];
+  const beyer = source.slope * figure + source.offset;
+  return Math.round((beyer - target.offset) / target.slope);
+};
+
+export const getFigureScale = (pp: PastPerformance): SpeedFigureScale =>
+  pp.speedFigureScale || DEFAULT_FIGURE_SCALE;
+
+// Figures from the horse's running lines, most recent first, converted to one scale
+export const getRecentFigures = (
+  pastPerformances: PastPerformance[],
+  scale: SpeedFigureScale = DEFAULT_FIGURE_SCALE,
+  count: number = 3
+): number[] => {
+  return pastPerformances
+    .filter(pp => typeof pp.speedFigure === 'number')
+    .slice(0, count)
+    .map(pp => convertFigure(pp.speedFigure!, getFigureScale(pp), scale));
+};
+
+// First headline figure printed with the entry, on its own scale; used when no running lines were read
+export const getHeadlineFigure = (horse: Horse): { figure: number; scale: SpeedFigureScale } | null => {
+  for (const [key, scale] of HEADLINE_SCALES) {
+    const figure = horse.speedFigures[key];
+    if (typeof figure === 'number') return { figure, scale };
+  }
+  return null;
+};
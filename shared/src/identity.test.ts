@@ -0,0 +1,49 @@
+import { Horse, Race } from './types';
+import { assignRaceIds, buildHorseIdentity, buildRaceId, isSameFoalCrop } from './identity';
+
+const race = (horses: Partial<Horse>[]): Race => ({
+  id: '',
+  number: 3,
+  track: 'Saratoga',
+  trackCode: 'SAR',
+  date: '2024-08-15',
+  horses: horses.map(horse => ({ pastPerformances: [], speedFigures: {}, ...horse }))
+} as unknown as Race);
+
+describe('buildRaceId', () => {
+  it.each<[string, string, number, string | undefined, string]>([
+    ['SAR', '2024-08-15', 3, undefined, 'SAR-20240815-R3'],
+    ['Unknown Track', '2024-08-15', 3, undefined, 'UNKNOWN-TRACK-20240815-R3'],
+    ['', '2024-08-15', 3, undefined, 'UNKNOWN-20240815-R3'],
+    ['Unknown Track', '2024-08-15', 3, 'a1b2c3d4-0000', 'UNKNOWN-TRACK-20240815-A1B2C3D4-0000-R3']
+  ])('builds an id from %p %p race %p (card %p)', (track, date, raceNumber, raceCardId, id) => {
+    expect(buildRaceId(track, date, raceNumber, raceCardId)).toBe(id);
+  });
+});
+
+describe('horse identity', () => {
+  it('is the same with or without a pedigree line', () => {
+    const [withPedigree, withoutPedigree] = [
+      assignRaceIds(race([{ name: 'Fast One', number: 1, age: 3 }])).horses[0],
+      assignRaceIds(race([{ name: 'FAST ONE', number: 1 }])).horses[0]
+    ];
+
+    expect(withPedigree.identityId).toBe('FAST-ONE');
+    expect(withoutPedigree.identityId).toBe('FAST-ONE');
+    expect(withPedigree.foalingYear).toBe(2021);
+    expect(withoutPedigree.foalingYear).toBeUndefined();
+  });
+
+  it('keeps the country suffix of imports', () => {
+    expect(buildHorseIdentity('Galileo (IRE)')).toBe('GALILEO-IRE');
+  });
+
+  it.each<[number | undefined, number | undefined, boolean]>([
+    [2021, 2021, true],
+    [2021, undefined, true],
+    [undefined, 2019, true],
+    [2021, 2019, false]
+  ])('compares foaling years %p and %p', (a, b, same) => {
+    expect(isSameFoalCrop(a, b)).toBe(same);
+  });
+});
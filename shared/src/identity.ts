@@ -0,0 +1,54 @@
+import { Horse, Race, RaceCard } from './types';
+import { getProgramNumber } from './utils';
+
+// Upper-case letters and digits only, so ids are safe in URLs and document keys
+const toKey = (value: string): string =>
+  value.toUpperCase().replace(/[^A-Z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+// Races are identified by where and when they are run, e.g. "SAR-20240815-R3".
+// Unrecognized tracks fall back to the printed name; a race card id, when given,
+// keeps races from different cards apart, e.g. "UNKNOWN-20240815-<card id>-R3".
+export const buildRaceId = (track: string, date: string, raceNumber: number, raceCardId?: string): string =>
+  [toKey(track) || 'UNKNOWN', date.replace(/-/g, ''), ...(raceCardId ? [toKey(raceCardId)] : []), `R${raceNumber}`].join('-');
+
+// Entries are identified by race and program number, e.g. "SAR-20240815-R3-5"
+export const buildHorseId = (raceId: string, programNumber: number | string): string =>
+  `${raceId}-${toKey(String(programNumber))}`;
+
+// Links the same horse across cards. Imports carry their country in the name
+// ("GALILEO (IRE)"), so the name alone is the key, whether or not the card
+// printed a pedigree line; see isSameFoalCrop for older namesakes.
+export const buildHorseIdentity = (name: string): string => toKey(name);
+
+// A name can be reused once its earlier holder is retired, so two entries with the
+// same identity are different horses when both foaling years are known and differ
+export const isSameFoalCrop = (a?: number, b?: number): boolean =>
+  a === undefined || b === undefined || a === b;
+
+// Horses age on January 1st, so a 3-year-old racing in 2024 was foaled in 2021
+export const getFoalingYear = (age: number, raceDate: string): number | undefined => {
+  const year = parseInt(raceDate.slice(0, 4));
+  return isNaN(year) ? undefined : year - age;
+};
+
+export const assignHorseIds = (race: Race, horse: Horse): void => {
+  horse.id = buildHorseId(race.id, getProgramNumber(horse));
+  if (!horse.foalingYear && horse.age) horse.foalingYear = getFoalingYear(horse.age, race.date);
+  horse.identityId = buildHorseIdentity(horse.name);
+};
+
+// Derives race and horse ids from the race's track, date and numbers; call again
+// whenever one of those changes so the ids keep matching the card
+export const assignRaceIds = (race: Race, raceCardId?: string): Race => {
+  race.id = buildRaceId(race.trackCode || race.track, race.date, race.number, raceCardId);
+  race.horses.forEach(horse => assignHorseIds(race, horse));
+  return race;
+};
+
+// A card whose track was not recognized or whose date was not printed would share
+// ids like "UNKNOWN-<upload day>-R3" with every such card, so its ids carry the card id
+export const assignCardRaceIds = (raceCard: RaceCard): RaceCard => {
+  const raceCardId = !raceCard.trackCode || raceCard.dateAssumed ? raceCard.id : undefined;
+  raceCard.races.forEach(race => assignRaceIds(race, raceCardId));
+  return raceCard;
+};
@@ -2,4 +2,16 @@
 export * from './types';
 
 // Export all utilities
-export * from './utils';
\ No newline at end of file
+export * from './utils';
+
+// Export distance parsing and comparison
+export * from './distance';
+
+// Export race and horse identity
+export * from './identity';
+
+// Export odds parsing and conversion
+export * from './odds';
+
+// Export speed figure scales and conversion
+export * from './figures';
\ No newline at end of file
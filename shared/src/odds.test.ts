@@ -0,0 +1,55 @@
+import { formatOdds, parseOdds, roundToToteOdds } from './odds';
+
+describe('parseOdds', () => {
+  it.each<[string, number | null]>([
+    ['5-2', 2.5],
+    ['5/2', 2.5],
+    ['EVEN', 1],
+    ['+250', 2.5],
+    ['-200', 0.5],
+    ['3.50', 2.5],
+    ['5', 5],
+    // Prices that pay nothing or divide by zero
+    ['0-1', null],
+    ['5-0', null],
+    ['0/5', null],
+    ['+000', null],
+    ['-000', null],
+    ['1.00', null],
+    ['0', null],
+    ['', null],
+    ['junk', null]
+  ])('parses %p as %p', (text, odds) => {
+    expect(parseOdds(text)).toBe(odds);
+  });
+});
+
+describe('formatOdds', () => {
+  it.each<[number, 'fractional' | 'decimal' | 'moneyline', string]>([
+    [2.5, 'fractional', '5-2'],
+    [2.4, 'fractional', '5-2'],
+    [2.5, 'decimal', '3.50'],
+    [2.5, 'moneyline', '+250'],
+    [0.5, 'moneyline', '-200'],
+    [150, 'fractional', '99-1']
+  ])('formats %p as %s %p', (odds, format, text) => {
+    expect(formatOdds(odds, format)).toBe(text);
+  });
+
+  it.each([0, -1, NaN])('formats %p as an empty price', odds => {
+    expect(formatOdds(odds, 'fractional')).toBe('');
+    expect(formatOdds(odds, 'decimal')).toBe('');
+    expect(formatOdds(odds, 'moneyline')).toBe('');
+  });
+
+  it.each(['+250', '-200', '+100', '-150', '+1200'])('round trips moneyline %s', moneyline => {
+    expect(formatOdds(parseOdds(moneyline)!, 'moneyline')).toBe(moneyline);
+  });
+});
+
+describe('roundToToteOdds', () => {
+  it('rounds down to the ladder price at or below the odds', () => {
+    expect(roundToToteOdds(2.9, 'down')).toBe(2.5);
+    expect(roundToToteOdds(2.9, 'nearest')).toBe(3);
+  });
+});
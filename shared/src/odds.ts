@@ -0,0 +1,101 @@
+import { OddsFormat, OddsRounding } from './types';
+
+// Prices a US tote board displays, as [numerator, denominator]
+const TOTE_LADDER: [number, number][] = [
+  [1, 9], [1, 5], [2, 5], [1, 2], [3, 5], [4, 5], [1, 1], [6, 5], [7, 5], [3, 2], [8, 5], [9, 5],
+  [2, 1], [5, 2], [3, 1], [7, 2], [4, 1], [9, 2],
+  ...Array.from({ length: 95 }, (_, i): [number, number] => [i + 5, 1])
+];
+
+const TOTE_VALUES = TOTE_LADDER.map(([numerator, denominator]) => numerator / denominator);
+
+const EVEN_PATTERN = /^(?:even|evn|evs|evens)$/i;
+const FRACTIONAL_PATTERN = /^(\d+(?:\.\d+)?)\s*[-/–:]\s*(\d+(?:\.\d+)?)$/;
+const MONEYLINE_PATTERN = /^([+-])(\d{3,})$/;
+const DECIMAL_PATTERN = /^\d+\.\d+$/;
+const TOTE_PATTERN = /^\d+$/;
+
+// Parses "5-2", "5/2", "EVEN", "+250", "-200" or decimal "3.50" into odds to one.
+// A bare whole number is read the way tote boards show it ("5" is 5-1). Prices
+// that pay nothing ("0-1", "+000", "1.00", "0") are invalid and return null.
+export const parseOdds = (text: string): number | null => {
+  if (!text) return null;
+  const value = text.trim();
+
+  if (EVEN_PATTERN.test(value)) return 1;
+
+  const fractional = value.match(FRACTIONAL_PATTERN);
+  if (fractional) {
+    const numerator = parseFloat(fractional[1]);
+    const denominator = parseFloat(fractional[2]);
+    return numerator > 0 && denominator > 0 ? numerator / denominator : null;
+  }
+
+  const moneyline = value.match(MONEYLINE_PATTERN);
+  if (moneyline) {
+    const amount = parseInt(moneyline[2]);
+    if (amount <= 0) return null;
+    return moneyline[1] === '+' ? amount / 100 : 100 / amount;
+  }
+
+  if (DECIMAL_PATTERN.test(value)) {
+    const decimal = parseFloat(value);
+    return decimal > 1 ? decimal - 1 : null;
+  }
+
+  if (TOTE_PATTERN.test(value)) {
+    const tote = parseInt(value);
+    return tote > 0 ? tote : null;
+  }
+
+  return null;
+};
+
+export const oddsToImpliedProbability = (odds: number): number => {
+  return 1 / (odds + 1);
+};
+
+export const probabilityToOdds = (probability: number): number => {
+  return (1 - probability) / probability;
+};
+
+// Scales a field's implied probabilities to sum to 1, removing the track's takeout
+export const normalizeProbabilities = (probabilities: number[]): number[] => {
+  const total = probabilities.reduce((sum, probability) => sum + probability, 0);
+  return total > 0 ? probabilities.map(probability => probability / total) : probabilities;
+};
+
+// How far a field's implied probabilities sum past 1, e.g. 0.2 for a 20% overround
+export const getOverround = (probabilities: number[]): number => {
+  return probabilities.reduce((sum, probability) => sum + probability, 0) - 1;
+};
+
+// Fits odds to the tote ladder; anything past 99-1 shows as 99-1
+export const roundToToteOdds = (odds: number, rounding: OddsRounding = 'nearest'): number => {
+  if (rounding === 'down') {
+    const lower = TOTE_VALUES.filter(value => value <= odds + 1e-9);
+    return lower.length > 0 ? lower[lower.length - 1] : TOTE_VALUES[0];
+  }
+
+  return TOTE_VALUES.reduce((best, value) =>
+    Math.abs(value - odds) < Math.abs(best - odds) ? value : best
+  );
+};
+
+// Odds of zero or less have no price to show and format as an empty string
+export const formatOdds = (
+  odds: number,
+  format: OddsFormat = 'fractional',
+  rounding: OddsRounding = 'nearest'
+): string => {
+  if (!(odds > 0)) return '';
+  if (format === 'decimal') return (odds + 1).toFixed(2);
+
+  if (format === 'moneyline') {
+    return odds >= 1 ? `+${Math.round(odds * 100)}` : `-${Math.round(100 / odds)}`;
+  }
+
+  const tote = roundToToteOdds(odds, rounding);
+  const [numerator, denominator] = TOTE_LADDER[TOTE_VALUES.indexOf(tote)];
+  return `${numerator}-${denominator}`;
+};
@@ -10,67 +10,300 @@ export interface User {
 }
 
 // Race Data Types
+export type HorseSex = 'colt' | 'filly' | 'gelding' | 'horse' | 'mare' | 'ridgling';
+
 export interface Horse {
+  // Unique per entry, e.g. "SAR-20240815-R3-5"; see buildHorseId
   id: string;
+  // Same for every card the horse appears on; see buildHorseIdentity and isSameFoalCrop
+  identityId?: string;
   name: string;
+  // Betting interest; coupled entries ("1" and "1A") share it
   number: number;
+  // Number printed on the program, e.g. "1A"; falls back to `number` when absent
+  programNumber?: string;
+  scratched?: boolean;
+  // Listed below the field; only runs if it draws in after a scratch
+  alsoEligible?: boolean;
+  blinkers?: boolean;
+  // Set when today's blinkers differ from the horse's last race
+  blinkersChange?: 'on' | 'off';
+  lasix?: boolean;
+  firstTimeLasix?: boolean;
+  // Rider named on the program, kept when a late change replaced them
+  originalJockey?: string;
+  age?: number;
+  sex?: HorseSex;
+  foalingYear?: number;
   jockey: string;
   trainer: string;
   weight: number;
   odds?: string;
   morningLine?: string;
+  // Headline figures printed with the entry, each on its own scale
   speedFigures: {
     beyer?: number;
     timeform?: number;
+    brisnet?: number;
+    equibase?: number;
     parDRF?: number;
   };
   pastPerformances: PastPerformance[];
+  // Most recent first
+  workouts?: Workout[];
+  // 0-100 class of the horse's recent starts; see the class model
   classRating?: number;
-  formCycle?: 'improving' | 'declining' | 'steady';
+  // Today's race against the horse's last start
+  classMove?: ClassMove;
+  formCycle?: FormCycle;
+  runningStyle?: RunningStyle;
+  // 0-6; see the pace model for how they are earned
+  earlySpeedPoints?: number;
+  extraction?: ExtractionConfidence;
+}
+
+// E: needs the lead, E/P: presses the pace, P: stalks mid-pack, S: closes from the back
+export type RunningStyle = 'E' | 'E/P' | 'P' | 'S';
+
+// Publisher a speed figure comes from; each runs on its own scale.
+// 'in-house' figures are calculated here on the Beyer scale.
+export type SpeedFigureScale = 'beyer' | 'brisnet' | 'timeform' | 'equibase' | 'in-house';
+
+export interface RunningCall {
+  position: number;
+  // Lengths behind the leader; the leader's own margin is its lead over second.
+  // Absent when no margin was printed or read, so only the position is known.
+  lengths?: number;
 }
 
 export interface PastPerformance {
   date: string;
   track: string;
-  distance: string;
-  surface: 'dirt' | 'turf' | 'synthetic';
+  distance: Distance;
+  surface: Surface;
   condition: string;
   finish: number;
   beaten: number;
+  postPosition?: number;
+  startPosition?: number;
+  // Positions after the start in order: first call, second call, stretch, finish
+  calls?: RunningCall[];
   time: string;
   speedFigure?: number;
+  // Scale of `speedFigure`; read as Beyer when absent
+  speedFigureScale?: SpeedFigureScale;
   classLevel: string;
   purse: number;
+  extraction?: ExtractionConfidence;
+}
+
+export interface Workout {
+  date: string;
+  track: string;
+  distance: Distance;
+  surface: Surface;
+  condition: string;
+  // As printed, e.g. ":48.2" or "1:01.4"
+  time: string;
+  seconds: number;
+  // Breezing (B) is asked for less than handily (H)
+  manner: 'breezing' | 'handily';
+  fromGate?: boolean;
+  // Rank among the works at the distance that day, e.g. 5 of 32
+  rank?: number;
+  of?: number;
+  // Fastest of the day at the distance
+  bullet?: boolean;
 }
 
 export interface Race {
+  // Unique per race, e.g. "SAR-20240815-R3"; see buildRaceId and assignCardRaceIds
   id: string;
   number: number;
   track: string;
+  trackCode?: string;
   date: string;
-  distance: string;
-  surface: 'dirt' | 'turf' | 'synthetic';
+  distance: Distance;
+  surface: Surface;
+  // Conditions as printed on the program, e.g. "FOR MAIDENS, THREE YEAR OLDS..."
   condition: string;
+  // Structured form of `condition`
+  conditions?: RaceConditions;
   purse: number;
+  // Display label, e.g. "Claiming $25,000" or "Travers Stakes (G1)"
   raceType: string;
   horses: Horse[];
-  paceScenario?: 'fast' | 'moderate' | 'slow';
+  paceScenario?: PaceScenario;
+  paceShape?: RaceShape;
+  // 0-100, on the same scale as Horse.classRating
+  classRating?: number;
   biasIndicators?: string[];
   weatherConditions?: {
     temperature: number;
     conditions: string;
     wind?: string;
   };
+  extraction?: ExtractionConfidence;
 }
 
 export interface RaceCard {
   id: string;
   track: string;
+  // Registry code for the track, when the name was recognized
+  trackCode?: string;
   date: string;
+  // The program printed no date, so the upload day stands in for it
+  dateAssumed?: boolean;
   races: Race[];
   uploadedAt: Date;
   userId: string;
   originalFileName: string;
+  needsReview?: boolean;
+  corrections?: RaceCardCorrection[];
+  changes?: LateChange[];
+}
+
+export type RaceClass =
+  | 'maiden-special-weight'
+  | 'maiden-claiming'
+  | 'claiming'
+  | 'starter-allowance'
+  | 'allowance'
+  | 'optional-claiming'
+  | 'stakes';
+
+export type SexRestriction = 'fillies' | 'mares' | 'fillies-and-mares' | 'colts-and-geldings';
+
+export interface WeightAssignment {
+  // Who carries the weight, e.g. "Three Year Olds" or "Older"
+  label: string;
+  pounds: number;
+}
+
+export interface WeightAllowance {
+  // Who gets the allowance, e.g. "Non-winners of a race since June 1"
+  condition: string;
+  pounds: number;
+}
+
+export interface RaceConditions {
+  raceClass: RaceClass;
+  grade?: 1 | 2 | 3;
+  stakesName?: string;
+  // Top claiming price; starters entered for less carry less weight
+  claimingPrice?: number;
+  // Inclusive; no maximum means "and upward"
+  ages?: { min: number; max?: number };
+  // Open to both sexes when absent
+  sex?: SexRestriction;
+  weights: WeightAssignment[];
+  allowances: WeightAllowance[];
+  purse?: number;
+  text: string;
+}
+
+// Changes announced after the program was printed, e.g. from the track's changes page
+export type LateChangeType =
+  | 'scratch'
+  | 'reinstate'
+  | 'draw-in'
+  | 'jockey'
+  | 'weight'
+  | 'blinkers-on'
+  | 'blinkers-off'
+  | 'lasix-on'
+  | 'lasix-off';
+
+export interface LateChange {
+  id: string;
+  raceNumber: number;
+  programNumber: string;
+  type: LateChangeType;
+  // New rider for 'jockey', new weight for 'weight'
+  value?: string | number;
+  reason?: string;
+  appliedBy: string;
+  appliedAt: Date;
+}
+
+// One entry of a horse on a stored race card, used to follow it across cards
+export interface HorseAppearance {
+  raceCardId: string;
+  raceId: string;
+  track: string;
+  date: string;
+  raceNumber: number;
+  horse: Horse;
+}
+
+export type Surface = 'dirt' | 'turf' | 'synthetic';
+
+// Unit the distance was carded in; miles are carried as furlongs
+export type DistanceUnit = 'furlongs' | 'yards' | 'meters';
+
+export interface Distance {
+  value: number;
+  unit: DistanceUnit;
+  // Always filled, so distances in different units compare directly
+  furlongs: number;
+  // "About" distances are run from a chute and are not exact
+  about?: boolean;
+  // Display form, e.g. "1 1/16 Miles"
+  text: string;
+}
+
+export type DistanceCategory = 'sprint' | 'route';
+
+export type DistanceChange = 'same' | 'stretching-out' | 'cutting-back';
+
+// Odds are carried as "odds to one" (5-2 is 2.5); these are the printed forms
+export type OddsFormat = 'fractional' | 'decimal' | 'moneyline';
+
+// How a price is fitted to the tote ladder: boards round down (breakage), fair lines round to nearest
+export type OddsRounding = 'down' | 'nearest';
+
+export interface Track {
+  // Primary abbreviation, as used in Equibase charts
+  code: string;
+  name: string;
+  // Other names printed on programs, e.g. sponsor names or former names
+  aliases?: string[];
+  // Every abbreviation seen in past performance lines, including `code`
+  codes: string[];
+  // ISO 3166-1 alpha-2
+  country: string;
+  // IANA time zone of the track, for post times
+  timezone: string;
+  surfaces: Surface[];
+  tier: TrackTier;
+  // Distances most often carded, in furlongs
+  typicalDistances: number[];
+}
+
+// 1 is the major circuits that card most graded stakes, 3 the small-purse and regional meets
+export type TrackTier = 1 | 2 | 3;
+
+// How sure the OCR parser is about one extracted row, plus the text it was read from
+export interface ExtractionConfidence {
+  confidence: number;
+  sourceText: string;
+  fields?: Record<string, number>;
+}
+
+export type HorseCorrectionField = 'name' | 'number' | 'morningLine' | 'odds';
+export type RaceCorrectionField = 'condition';
+
+export interface RaceCardCorrection {
+  id: string;
+  raceNumber: number;
+  // Program number the horse had before the fix, e.g. "1A"; absent for race fields
+  programNumber?: string;
+  field: HorseCorrectionField | RaceCorrectionField;
+  previousValue: string | number | undefined;
+  value: string | number;
+  originalText?: string;
+  correctedBy: string;
+  correctedAt: Date;
 }
 
 // Chat and Analysis Types
@@ -103,7 +336,8 @@ export interface AnalysisInsight {
   confidence: 'high' | 'medium' | 'low';
   summary: string;
   details: string;
-  affectedHorses: number[];
+  // Program numbers, so coupled entries ("1" and "1A") stay apart
+  affectedHorses: string[];
 }
 
 export interface RaceAnalysis {
@@ -120,26 +354,227 @@ export interface RaceAnalysis {
   generatedAt: Date;
 }
 
+export type PaceScenario = 'fast' | 'moderate' | 'slow';
+
+export interface HorsePace {
+  horseId: string;
+  programNumber: string;
+  // Absent when no running line had readable calls
+  style?: RunningStyle;
+  earlySpeedPoints: number;
+  // Average first call position and lengths behind over the races used; lengths
+  // only count calls that had a margin
+  firstCallPosition?: number;
+  firstCallLengths?: number;
+  racesUsed: number;
+}
+
+export interface RaceShape {
+  scenario: PaceScenario;
+  // Program numbers of the runners expected to contest the lead
+  speed: string[];
+  // Set when one runner should make the lead unchallenged
+  loneSpeed?: string;
+  // Running styles the projected pace helps
+  favors: RunningStyle[];
+  summary: string;
+}
+
+export interface RacePaceAnalysis {
+  raceId: string;
+  horses: HorsePace[];
+  shape: RaceShape;
+}
+
+export type ValueVerdict = 'overlay' | 'underlay' | 'fair' | 'unpriced';
+
+// Where a race's win probabilities came from, best first
+export type WinEstimateBasis = 'ratings' | 'morning-line' | 'uniform' | 'custom';
+
+export interface HorseValue {
+  horseId: string;
+  programNumber: string;
+  name: string;
+  winProbability: number;
+  // Odds to one at which a bet on the horse breaks even
+  fairOdds: number;
+  fairLine: string;
+  morningLine?: string;
+  odds?: string;
+  // Price the verdict is based on: live odds when posted, otherwise the morning line
+  offeredOdds?: number;
+  // Market probability with takeout removed across the field
+  marketProbability?: number;
+  // Expected return per unit staked at the offered price
+  edge?: number;
+  verdict: ValueVerdict;
+}
+
+export interface RaceValueAnalysis {
+  raceId: string;
+  basis: WinEstimateBasis;
+  edgeThreshold: number;
+  horses: HorseValue[];
+  insights: AnalysisInsight[];
+  generatedAt: Date;
+}
+
+// Where a race's par came from: the class of the race, or the field itself when the class is unknown
+export type ParBasis = 'class' | 'field';
+
+// Figures converted to the analysis scale
+export interface HorseFigures {
+  horseId: string;
+  programNumber: string;
+  name: string;
+  lastRace?: number;
+  bestOfThree?: number;
+  average?: number;
+  // The number the field is ranked on; absent when the horse has no figures
+  rating?: number;
+  // 1 is the top rating; ties share a rank
+  rank?: number;
+  // Rating minus the race par
+  vsPar?: number;
+  figuresUsed: number;
+  // Scales the figures were printed on before conversion
+  sourceScales: SpeedFigureScale[];
+}
+
+export interface RaceFigures {
+  raceId: string;
+  scale: SpeedFigureScale;
+  par?: number;
+  parBasis?: ParBasis;
+  horses: HorseFigures[];
+  generatedAt: Date;
+}
+
+export type ClassMove = 'drop' | 'rise' | 'same';
+
+export type ClassSignalType = 'drop' | 'rise' | 'first-time-claiming' | 'maiden-graduate';
+
+export interface ClassSignal {
+  type: ClassSignalType;
+  // Class rating points between today's race and the start compared against
+  points?: number;
+  description: string;
+}
+
+export interface HorseClass {
+  horseId: string;
+  programNumber: string;
+  name: string;
+  // Average class of the recent starts; absent when no running line had a readable class
+  rating?: number;
+  lastRating?: number;
+  bestRating?: number;
+  move?: ClassMove;
+  signals: ClassSignal[];
+  startsUsed: number;
+}
+
+export interface RaceClassAnalysis {
+  raceId: string;
+  // Absent when the race conditions were not read
+  rating?: number;
+  horses: HorseClass[];
+  generatedAt: Date;
+}
+
+// 'layoff' is the first start back after a long rest, 'first-time-starter' has no running lines
+export type FormCycle =
+  | 'improving'
+  | 'steady'
+  | 'declining'
+  | 'layoff'
+  | 'second-off-layoff'
+  | 'first-time-starter';
+
+export interface HorseForm {
+  horseId: string;
+  programNumber: string;
+  name: string;
+  cycle: FormCycle;
+  // One or two sentences the assistant can quote
+  reason: string;
+  daysSinceLastRace?: number;
+  // Starts since the last layoff; the trend below only spans these
+  startsSinceLayoff?: number;
+  // Speed figure change per start, oldest to newest; positive is improving
+  figureTrend?: number;
+  // Beaten lengths change per start; negative is improving
+  beatenLengthsTrend?: number;
+  // Works in the month before the race
+  recentWorkouts: number;
+  bulletWorkout?: boolean;
+  startsUsed: number;
+}
+
+export interface RaceFormAnalysis {
+  raceId: string;
+  horses: HorseForm[];
+  generatedAt: Date;
+}
+
 // OCR and File Processing Types
+export interface OCRBlockResult {
+  text: string;
+  confidence: number;
+}
+
+export type OCREngine = 'google-vision' | 'tesseract' | 'consensus';
+
+export interface OCRPageResult {
+  pageNumber: number;
+  text: string;
+  confidence: number;
+  engine?: OCREngine;
+  blocks?: OCRBlockResult[];
+}
+
 export interface OCRResult {
   success: boolean;
   text: string;
   confidence: number;
+  needsReview?: boolean;
+  pages?: OCRPageResult[];
+  parser?: {
+    name: string;
+    score: number;
+  };
   extractedData?: Partial<RaceCard>;
   errors?: string[];
 }
 
+export type FileUploadStatus = 'uploaded' | 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export interface FileUploadStatusChange {
+  status: FileUploadStatus;
+  timestamp: Date;
+  message?: string;
+}
+
 export interface FileUpload {
   id: string;
   userId: string;
   originalName: string;
   fileSize: number;
   mimeType: string;
+  // Number of page images assembled into one race card; absent for single-file uploads
+  pageCount?: number;
   uploadedAt: Date;
+  processingStartedAt?: Date;
   processedAt?: Date;
-  status: 'uploaded' | 'processing' | 'completed' | 'failed';
+  processingTimeMs?: number;
+  status: FileUploadStatus;
+  statusHistory?: FileUploadStatusChange[];
   ocrResult?: OCRResult;
   raceCardId?: string;
+  // Background job currently or most recently processing this upload
+  jobId?: string;
+  // Names of the uploaded files in server upload storage, kept so OCR can be re-run
+  storedFiles?: string[];
 }
 
 // API Response Types
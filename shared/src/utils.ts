@@ -22,70 +22,17 @@ export const isToday = (date: Date): boolean => {
 };
 
 // Racing Utilities
-export const calculatePaceScenario = (horses: Horse[]): 'fast' | 'moderate' | 'slow' => {
-  const speedHorses = horses.filter(horse => 
-    horse.pastPerformances.some(pp => pp.speedFigure && pp.speedFigure > 85)
-  );
-  
-  if (speedHorses.length >= 3) return 'fast';
-  if (speedHorses.length === 2) return 'moderate';
-  return 'slow';
-};
-
-export const getFormCycle = (pastPerformances: any[]): 'improving' | 'declining' | 'steady' => {
-  if (pastPerformances.length < 3) return 'steady';
-  
-  const recentRaces = pastPerformances.slice(0, 3);
-  const finishes = recentRaces.map(pp => pp.finish);
-  
-  const improving = finishes[0] < finishes[1] && finishes[1] < finishes[2];
-  const declining = finishes[0] > finishes[1] && finishes[1] > finishes[2];
-  
-  if (improving) return 'improving';
-  if (declining) return 'declining';
-  return 'steady';
-};
+export const getProgramNumber = (horse: Horse): string =>
+  horse.programNumber || String(horse.number);
 
-export const calculateClassRating = (horse: Horse): number => {
-  const recentRaces = horse.pastPerformances.slice(0, 5);
-  if (recentRaces.length === 0) return 50;
-  
-  const avgPurse = recentRaces.reduce((sum, pp) => sum + pp.purse, 0) / recentRaces.length;
-  
-  // Simple class rating based on average purse (scaled 0-100)
-  if (avgPurse >= 100000) return 95;
-  if (avgPurse >= 50000) return 85;
-  if (avgPurse >= 25000) return 75;
-  if (avgPurse >= 10000) return 65;
-  return 55;
+export const findHorseByProgramNumber = (race: Race, programNumber: string): Horse | undefined => {
+  const wanted = programNumber.trim().toUpperCase();
+  return race.horses.find(horse => getProgramNumber(horse).toUpperCase() === wanted);
 };
 
-// Odds and Betting Utilities
-export const parseOdds = (oddsString: string): number => {
-  if (!oddsString) return 0;
-  
-  // Handle formats like "5-1", "3/2", "7-2"
-  if (oddsString.includes('-')) {
-    const [num, den] = oddsString.split('-').map(Number);
-    return num / den;
-  }
-  
-  if (oddsString.includes('/')) {
-    const [num, den] = oddsString.split('/').map(Number);
-    return num / den;
-  }
-  
-  return parseFloat(oddsString) || 0;
-};
-
-export const oddsToImpliedProbability = (odds: number): number => {
-  return 1 / (odds + 1);
-};
-
-export const formatOdds = (decimal: number): string => {
-  if (decimal < 1) return `1-${Math.round(1/decimal)}`;
-  return `${Math.round(decimal)}-1`;
-};
+// Horses expected to start: scratches and also-eligibles that have not drawn in are left out
+export const getRunners = (race: Race): Horse[] =>
+  race.horses.filter(horse => !horse.scratched && !horse.alsoEligible);
 
 // File and Validation Utilities
 export const validateFileType = (fileName: string, allowedTypes: string[]): boolean => {